@@ -0,0 +1,72 @@
+import { AddressInfo } from "net";
+import type { Server } from "http";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { getLibraryVersion } from "../services/libraryService.js";
+import { ApiServer } from "./apiServer.js";
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  const api = new ApiServer(
+    () => undefined,
+    vi.fn(),
+    vi.fn(),
+    async () => false
+  );
+  server = api.listen(0);
+  await new Promise<void>((resolve) => server.once("listening", () => resolve()));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+  vi.restoreAllMocks();
+});
+
+/**
+ * If-None-Match を付けてライブラリのアーティスト一覧を取得します。
+ * @param ifNoneMatch If-None-Match ヘッダーの値。指定しない場合は付けない
+ * @returns レスポンス
+ */
+function fetchArtists(ifNoneMatch?: string): Promise<Response> {
+  return fetch(`${baseUrl}/artist`, {
+    headers: ifNoneMatch !== undefined ? { "If-None-Match": ifNoneMatch } : {},
+  });
+}
+
+describe("ライブラリの閲覧用 API の ETag", () => {
+  it("ライブラリのバージョンの ETag を付ける", async () => {
+    const res = await fetchArtists();
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get("ETag")).toBe(`W/"library-${getLibraryVersion()}"`);
+    expect(res.headers.get("X-Library-Version")).toBe(getLibraryVersion());
+    expect(res.headers.get("Cache-Control")).toBe("no-cache");
+  });
+
+  it("同じ ETag が送られた場合は 304 を返す", async () => {
+    const etag = `W/"library-${getLibraryVersion()}"`;
+
+    expect((await fetchArtists(etag)).status).toBe(304);
+  });
+
+  it("W/ の有無を区別せずに比べる", async () => {
+    expect((await fetchArtists(`"library-${getLibraryVersion()}"`)).status).toBe(304);
+  });
+
+  it("カンマ区切りのいずれかが一致する場合と * の場合は 304 を返す", async () => {
+    const etag = `W/"library-${getLibraryVersion()}"`;
+
+    expect((await fetchArtists(`W/"library-old", ${etag}`)).status).toBe(304);
+    expect((await fetchArtists("*")).status).toBe(304);
+  });
+
+  it("バージョンが違う場合は本文を返す", async () => {
+    const res = await fetchArtists('W/"library-old"');
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual([]);
+  });
+});
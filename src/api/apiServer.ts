@@ -6,19 +6,58 @@
 
 import express from "express";
 import cors from "cors";
+import busboy from "busboy";
 import { parseFile } from "music-metadata";
 import fs from "fs";
-import path from "path";
-import { fileURLToPath } from "url";
-import type { Request, Response } from "express";
-import { allowedOriginsRegex } from "../config/index.js";
-import { getLibraryData } from "../services/libraryService.js";
-import { youtubeUrlToTrackInfo } from "../services/youtubeService.js";
-import { sequenceTracks } from "../services/musicService.js";
-import { GuildState, QueueItem } from "../types/index.js";
-
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
+import { pipeline } from "stream/promises";
+import type { Request, RequestHandler, Response } from "express";
+import { allowedOriginsRegex, UPLOAD_MAX_BYTES } from "../config/index.js";
+import {
+  getLibraryData,
+  getLibraryHealthReport,
+  getLibraryVersion,
+  getPlaylist,
+} from "../services/libraryService.js";
+import {
+  enqueueYoutubePlaylist,
+  enqueueRemoteRequest,
+  getYoutubeJob,
+  YoutubeJob,
+} from "../services/youtubeJobService.js";
+import { getYoutubePlaylistEntries, isYoutubePlaylistUrl } from "../services/ytDlpService.js";
+import { findRemoteSource } from "../services/remoteSourceService.js";
+import {
+  deleteCacheEntry,
+  listCacheEntries,
+  setCachePinned,
+} from "../services/youtubeCacheService.js";
+import { createUploadFile, deleteUpload, storeUpload } from "../services/uploadService.js";
+import { searchLibrary } from "../services/searchService.js";
+import { resolveTrackPath } from "../services/trackPathService.js";
+import { getHistoryEntry, makeHistoryArray } from "../services/historyService.js";
+import {
+  getGuildSettings,
+  MAX_VOLUME,
+  updateGuildSettings,
+} from "../services/guildSettingsService.js";
+import {
+  pausePlayback,
+  resumePlayback,
+  seekPlayback,
+  setPlaybackVolume,
+} from "../services/playbackService.js";
+import {
+  clearQueue,
+  enqueueTrack,
+  enqueueTracks,
+  makeQueueArray,
+  moveQueueItem,
+  removeQueueItem,
+  shuffleQueue,
+} from "../services/queueService.js";
+import { verifyToken } from "../services/authService.js";
+import { voteSkip } from "../services/voteSkipService.js";
+import { GuildState, PermissionLevel } from "../types/index.js";
 
 /**
  * API Server のメインクラス
@@ -27,19 +66,30 @@ export class ApiServer {
   private app: express.Application;
   private getGuildState: (guildId: string) => GuildState | undefined;
   private notifyQueueUpdate: (guildId: string) => void;
+  private notifyYoutubeJobUpdate: (guildId: string, job: YoutubeJob) => void;
+  private checkPermission: (
+    guildId: string,
+    userId: string,
+    level: PermissionLevel
+  ) => Promise<boolean>;
 
   constructor(
     getGuildState: (guildId: string) => GuildState | undefined,
-    notifyQueueUpdate: (guildId: string) => void
+    notifyQueueUpdate: (guildId: string) => void,
+    notifyYoutubeJobUpdate: (guildId: string, job: YoutubeJob) => void,
+    checkPermission: (guildId: string, userId: string, level: PermissionLevel) => Promise<boolean>
   ) {
     this.app = express();
     this.getGuildState = getGuildState;
     this.notifyQueueUpdate = notifyQueueUpdate;
+    this.notifyYoutubeJobUpdate = notifyYoutubeJobUpdate;
+    this.checkPermission = checkPermission;
     this.setupMiddleware();
     this.setupRoutes();
   }
 
   private setupMiddleware() {
+    this.app.use(express.json());
     this.app.use(
       cors({
         origin: (origin, callback) => {
@@ -51,7 +101,8 @@ export class ApiServer {
           }
         },
         methods: ["GET", "POST", "OPTIONS"],
-        allowedHeaders: ["Content-Type", "Accept", "guildid"],
+        allowedHeaders: ["Content-Type", "Accept", "Authorization", "guildid", "If-None-Match"],
+        exposedHeaders: ["ETag", "X-Library-Version"],
       })
     );
   }
@@ -62,61 +113,143 @@ export class ApiServer {
       res.status(400).send("Bad Request: missing guildid header");
       return null;
     }
+
+    // Authorization: Bearer <token> のトークンが同じギルドに対して発行されたものか確認する
+    const authorization = req.header("authorization");
+    const token = authorization?.startsWith("Bearer ") ? authorization.slice(7) : null;
+    const payload = verifyToken(token);
+    if (!payload) {
+      res.status(401).send("Unauthorized: invalid or missing token");
+      return null;
+    }
+    if (payload.guildId !== guildId) {
+      res.status(403).send("Forbidden: token is not issued for this guild");
+      return null;
+    }
+
+    res.locals.userId = payload.userId;
     return guildId;
   }
 
-  private async makeQueueArray(st: GuildState | undefined | null): Promise<QueueItem[]> {
-    const arr: QueueItem[] = [];
-    if (!st) return arr;
-
-    let idx = 0;
-    if (st.currentTrack) {
-      for (const t of st.currentTrack) {
-        let duration: number | undefined;
-
-        try {
-          const filePath = path.resolve(__dirname, "../", t._relativePath);
-          const metadata = await parseFile(filePath);
-          duration = metadata.format.duration;
-        } catch (error) {
-          console.warn(`[API Server] Could not get duration for ${t._relativePath}:`, error);
-        }
+  /**
+   * 操作に必要な権限を確認するミドルウェアを生成します。
+   * @param level 必要な権限
+   * @returns Express のミドルウェア
+   */
+  private requirePermission(level: PermissionLevel): RequestHandler {
+    return async (req, res, next) => {
+      const guildId = this.extractGuildId(req, res);
+      if (!guildId) return;
 
-        arr.push({
-          index: idx++,
-          title: (t["Name"] as string) || "",
-          album: (t["アルバム"] as string) || "",
-          albumArtist: (t["アルバムアーティスト"] as string) || (t["アーティスト"] as string) || "",
-          artist: (t["アーティスト"] as string) || "",
-          isCurrent: true,
-          duration,
-        });
+      if (!(await this.checkPermission(guildId, res.locals.userId, level))) {
+        res
+          .status(403)
+          .send(
+            level === "admin"
+              ? "Forbidden: requires a configured role or Manage Server permission"
+              : "Forbidden: join the bot's voice channel or hold a configured role"
+          );
+        return;
       }
-    }
+      next();
+    };
+  }
+
+  /**
+   * ライブラリの閲覧用 API にライブラリのバージョンの ETag を付けるミドルウェアです。
+   * If-None-Match にカンマ区切りで送られた ETag のいずれかが同じバージョンのもの、
+   * または * の場合は 304 を返します。
+   * @returns Express のミドルウェア
+   */
+  private libraryVersionTag(): RequestHandler {
+    return (req, res, next) => {
+      const version = getLibraryVersion();
+      const opaqueTag = `"library-${version}"`;
+      const etag = `W/${opaqueTag}`;
+      res.setHeader("ETag", etag);
+      res.setHeader("X-Library-Version", version);
+      res.setHeader("Cache-Control", "no-cache");
+      const tags = (req.headers["if-none-match"] ?? "").split(",").map((tag) => tag.trim());
+      // 弱い比較なので、W/ の有無は区別しない
+      if (tags.some((tag) => tag === "*" || tag.replace(/^W\//, "") === opaqueTag)) {
+        res.status(304).end();
+        return;
+      }
+      next();
+    };
+  }
 
-    for (const t of st.requestQueue) {
-      let duration: number | undefined;
+  /**
+   * multipart/form-data のリクエストから file フィールドのファイルを読み取り、ファイルに書き込みます。
+   * 本文はメモリに溜めずに書き込み、上限のサイズを超えた時点で読み込みをやめます。
+   * @param req リクエスト
+   * @returns 書き込んだファイルのパスとアップロード時のファイル名。
+   *          上限を超える場合は "tooLarge"、ファイルがない場合は null
+   */
+  private receiveUploadedFile(
+    req: Request
+  ): Promise<{ filePath: string; name: string } | "tooLarge" | null> {
+    if (!req.header("content-type")?.startsWith("multipart/form-data")) {
+      return Promise.resolve(null);
+    }
+    if (Number(req.header("content-length")) > UPLOAD_MAX_BYTES) {
+      return Promise.resolve("tooLarge");
+    }
 
+    return new Promise((resolve) => {
+      let parser: busboy.Busboy;
       try {
-        const filePath = path.resolve(__dirname, "../", t._relativePath);
-        const metadata = await parseFile(filePath);
-        duration = metadata.format.duration;
-      } catch (error) {
-        console.warn(`[API Server] Could not get duration for ${t._relativePath}:`, error);
-      }
-
-      arr.push({
-        index: idx++,
-        title: (t["Name"] as string) || "",
-        album: (t["アルバム"] as string) || "",
-        albumArtist: (t["アルバムアーティスト"] as string) || (t["アーティスト"] as string) || "",
-        artist: (t["アーティスト"] as string) || "",
-        isCurrent: false,
-        duration,
-      });
-    }
+        parser = busboy({ headers: req.headers, limits: { files: 1, fileSize: UPLOAD_MAX_BYTES } });
+      } catch {
+        resolve(null);
+        return;
+      }
+
+      let upload: { filePath: string; name: string } | null = null;
+      let output: fs.WriteStream | null = null;
+      let written: Promise<void> = Promise.resolve();
+      let settled = false;
+      const fail = (result: "tooLarge" | null) => {
+        if (settled) return;
+        settled = true;
+        req.unpipe(parser);
+        output?.destroy();
+        if (upload) {
+          // 書き込み途中のファイルは、ストリームが閉じてから削除する
+          const { filePath } = upload;
+          written.catch(() => {}).finally(() => deleteUpload(filePath));
+        }
+        resolve(result);
+      };
 
-    return arr;
+      parser.on("file", (field, stream, info) => {
+        if (field !== "file" || upload) {
+          stream.resume();
+          return;
+        }
+        const created = createUploadFile(info.filename);
+        upload = { filePath: created.filePath, name: info.filename };
+        output = created.output;
+        written = pipeline(stream, output);
+        written.catch(() => fail(null));
+        stream.on("limit", () => fail("tooLarge"));
+      });
+      parser.on("close", () => {
+        written.then(
+          () => {
+            if (settled) return;
+            settled = true;
+            resolve(upload);
+          },
+          () => fail(null)
+        );
+      });
+      parser.on("error", () => fail(null));
+      req.on("close", () => {
+        if (!req.complete) fail(null);
+      });
+      req.pipe(parser);
+    });
   }
 
   private setupRoutes() {
@@ -124,11 +257,49 @@ export class ApiServer {
       const guildId = this.extractGuildId(req, res);
       if (!guildId) return;
       const st = this.getGuildState(guildId);
-      const queueData = await this.makeQueueArray(st);
+      const queueData = await makeQueueArray(st);
       res.json(queueData);
     });
 
-    this.app.get("/artist", (req, res) => {
+    this.app.get("/history", (req, res) => {
+      const guildId = this.extractGuildId(req, res);
+      if (!guildId) return;
+      res.json(makeHistoryArray(guildId));
+    });
+
+    this.app.get("/history/requeue/:index", this.requirePermission("control"), async (req, res) => {
+      const guildId = this.extractGuildId(req, res);
+      if (!guildId) return;
+
+      const st = this.getGuildState(guildId);
+      if (!st) {
+        res.status(400).send("Bot is not joined in this guild");
+        return;
+      }
+
+      const entry = getHistoryEntry(guildId, Number(req.params.index));
+      if (!entry) {
+        res.status(404).send("History entry not found");
+        return;
+      }
+
+      const count = await enqueueTracks(st, entry.tracks, {
+        requestedBy: res.locals.userId,
+        limits: getGuildSettings(guildId).requests,
+      });
+      if (count === 0) {
+        res.status(429).send("Request limit reached");
+        return;
+      }
+
+      this.notifyQueueUpdate(guildId);
+      res.json({
+        result: "ok",
+        message: `Requeued ${count} track(s): ${entry.tracks[0]?.Name ?? ""}`,
+      });
+    });
+
+    this.app.get("/artist", this.libraryVersionTag(), (req, res) => {
       const libraryData = getLibraryData();
       if (!libraryData.artistMap) {
         res.json([]);
@@ -139,7 +310,7 @@ export class ApiServer {
       res.json(keys);
     });
 
-    this.app.get("/artist/:artist", (req, res) => {
+    this.app.get("/artist/:artist", this.libraryVersionTag(), (req, res) => {
       const { artist } = req.params;
       const libraryData = getLibraryData();
       if (!libraryData.artistMap || !libraryData.artistMap[artist]) {
@@ -152,7 +323,7 @@ export class ApiServer {
       res.json(albums);
     });
 
-    this.app.get("/artist/:artist/:album", (req, res) => {
+    this.app.get("/artist/:artist/:album", this.libraryVersionTag(), (req, res) => {
       const { artist, album } = req.params;
       const libraryData = getLibraryData();
       if (!libraryData.artistMap || !libraryData.artistMap[artist]) {
@@ -169,6 +340,44 @@ export class ApiServer {
       res.json(titles);
     });
 
+    this.app.get("/playlist", this.libraryVersionTag(), (req, res) => {
+      const libraryData = getLibraryData();
+      res.json(
+        libraryData.playlists.map((p) => ({
+          id: p.id,
+          name: p.name,
+          trackCount: p.tracks.length,
+        }))
+      );
+    });
+
+    this.app.get("/playlist/:id", this.libraryVersionTag(), (req, res) => {
+      const playlist = getPlaylist(req.params.id);
+      if (!playlist) {
+        res.status(404).send("Playlist not found");
+        return;
+      }
+      res.json({
+        id: playlist.id,
+        name: playlist.name,
+        tracks: playlist.tracks.map((t) => ({
+          title: (t["Name"] as string) || "",
+          artist: (t["アーティスト"] as string) || "",
+          album: (t["アルバム"] as string) || "Unknown Album",
+          albumArtist:
+            (t["アルバムアーティスト"] as string) ||
+            (t["アーティスト"] as string) ||
+            "Unknown Artist",
+        })),
+      });
+    });
+
+    this.app.get("/search", this.libraryVersionTag(), (req, res) => {
+      const q = typeof req.query.q === "string" ? req.query.q : "";
+      const limit = Number(req.query.limit) || 50;
+      res.json(searchLibrary(q, Math.min(Math.max(limit, 1), 200)));
+    });
+
     // /cover/:artist/:album -> 代表トラックからカバーアートを取得
     this.app.get("/cover/:artist/:album", async (req, res) => {
       const { artist, album } = req.params;
@@ -184,7 +393,7 @@ export class ApiServer {
       }
 
       const firstTrack = albumMap[album][0];
-      const filePath = path.resolve(__dirname, "../", firstTrack._relativePath);
+      const filePath = resolveTrackPath(firstTrack);
 
       try {
         const stat = fs.statSync(filePath);
@@ -216,7 +425,51 @@ export class ApiServer {
       }
     });
 
-    this.app.get("/requestplay/:artist/:album/:title", (req, res) => {
+    this.app.get(
+      "/requestplay/:artist/:album/:title",
+      this.requirePermission("control"),
+      async (req, res) => {
+        const guildId = this.extractGuildId(req, res);
+        if (!guildId) return;
+
+        const st = this.getGuildState(guildId);
+        if (!st) {
+          res.status(400).send("Bot is not joined in this guild");
+          return;
+        }
+
+        const { artist, album, title } = req.params;
+        const libraryData = getLibraryData();
+
+        if (!libraryData.artistMap[artist] || !libraryData.artistMap[artist][album]) {
+          res.status(404).send("Album not found");
+          return;
+        }
+        const trackArr = libraryData.artistMap[artist][album];
+        const found = trackArr.find((t) => t["Name"] === title);
+        if (!found) {
+          res.status(404).send("Track not found");
+          return;
+        }
+
+        const added = await enqueueTrack(st, found, {
+          requestedBy: res.locals.userId,
+          limits: getGuildSettings(guildId).requests,
+        });
+        if (!added) {
+          res.status(429).send("Request limit reached");
+          return;
+        }
+
+        this.notifyQueueUpdate(guildId);
+        res.json({
+          result: "ok",
+          message: `Requested single track: ${title}`,
+        });
+      }
+    );
+
+    this.app.get("/playlistplay/:id", this.requirePermission("control"), async (req, res) => {
       const guildId = this.extractGuildId(req, res);
       if (!guildId) return;
 
@@ -226,30 +479,274 @@ export class ApiServer {
         return;
       }
 
-      const { artist, album, title } = req.params;
-      const libraryData = getLibraryData();
+      const playlist = getPlaylist(req.params.id);
+      if (!playlist) {
+        res.status(404).send("Playlist not found");
+        return;
+      }
+
+      const shuffle = req.query.shuffle === "1" || req.query.shuffle === "true";
+      const count = await enqueueTracks(st, playlist.tracks, {
+        shuffle,
+        requestedBy: res.locals.userId,
+        limits: getGuildSettings(guildId).requests,
+      });
+      if (count === 0 && playlist.tracks.length > 0) {
+        res.status(429).send("Request limit reached");
+        return;
+      }
+
+      this.notifyQueueUpdate(guildId);
+      res.json({
+        result: "ok",
+        message: `Requested playlist: ${playlist.name} (${count} tracks${shuffle ? ", shuffled" : ""})`,
+      });
+    });
+
+    // /youtubeplay は互換性のために残している。どちらも URL からソースを選んでダウンロードする
+    this.app.get(
+      ["/youtubeplay/:url", "/remoteplay/:url"],
+      this.requirePermission("control"),
+      async (req, res) => {
+        const guildId = this.extractGuildId(req, res);
+        if (!guildId) return;
+
+        const st = this.getGuildState(guildId);
+        if (!st) {
+          res.status(400).send("Bot is not joined in this guild");
+          return;
+        }
+
+        const url = req.params.url;
+        const source = findRemoteSource(url);
+        if (!source) {
+          res.status(400).send("Unsupported URL");
+          return;
+        }
+
+        const settings = getGuildSettings(guildId);
+        const options = { requestedBy: res.locals.userId, limits: settings.requests };
+
+        // プレイリストは動画ごとにキューに追加し、ダウンロードは再生が近づいてから行う
+        if (isYoutubePlaylistUrl(url)) {
+          const entries = await getYoutubePlaylistEntries(url, settings.youtube.maxPlaylistItems);
+          if (entries.length === 0) {
+            res.status(400).send("Failed to load YouTube playlist");
+            return;
+          }
+
+          const count = await enqueueYoutubePlaylist(st, entries, options);
+          if (count === 0) {
+            res.status(429).send("Request limit reached");
+            return;
+          }
+
+          this.notifyQueueUpdate(guildId);
+          res.json({
+            result: "ok",
+            message: `Requested YouTube playlist (${count} videos)`,
+            count,
+          });
+          return;
+        }
+
+        // ダウンロードの完了を待たずにジョブIDを返し、完了したらキューを更新する
+        const request = await enqueueRemoteRequest(guildId, st, url, options, (job) =>
+          this.notifyYoutubeJobUpdate(guildId, job)
+        );
+        if (!request) {
+          res.status(429).send("Request limit reached");
+          return;
+        }
+        request.done.then(() => this.notifyQueueUpdate(guildId));
+
+        this.notifyQueueUpdate(guildId);
+        res.json({
+          result: "ok",
+          message: `Started downloading from ${source.name}: ${url}`,
+          jobId: request.job.id,
+        });
+      }
+    );
+
+    this.app.post("/upload", this.requirePermission("control"), async (req, res) => {
+      const guildId = this.extractGuildId(req, res);
+      if (!guildId) return;
+
+      const st = this.getGuildState(guildId);
+      if (!st) {
+        res.status(400).send("Bot is not joined in this guild");
+        return;
+      }
+
+      const upload = await this.receiveUploadedFile(req);
+      if (upload === "tooLarge") {
+        // 残りの本文は受け取らず、応答を返したら接続を閉じる
+        res.on("finish", () => req.destroy());
+        res.status(413).set("Connection", "close").send("File is too large");
+        return;
+      }
+      if (!upload) {
+        res.status(400).send("Bad Request: missing file field");
+        return;
+      }
+
+      const track = await storeUpload(upload.filePath, upload.name);
+      if (!track) {
+        res.status(415).send("Unsupported audio file");
+        return;
+      }
+
+      const added = await enqueueTrack(st, track, {
+        requestedBy: res.locals.userId,
+        limits: getGuildSettings(guildId).requests,
+      });
+      if (!added) {
+        deleteUpload(track._relativePath);
+        res.status(429).send("Request limit reached");
+        return;
+      }
+
+      this.notifyQueueUpdate(guildId);
+      res.json({
+        result: "ok",
+        message: `Requested uploaded file: ${track.Name}`,
+      });
+    });
+
+    this.app.get("/youtube/job/:id", this.requirePermission("control"), (req, res) => {
+      const guildId = this.extractGuildId(req, res);
+      if (!guildId) return;
+
+      const job = getYoutubeJob(req.params.id, guildId);
+      if (!job) {
+        res.status(404).send("Job not found");
+        return;
+      }
+      res.json(job);
+    });
+
+    this.app.get("/youtube/cache", this.requirePermission("admin"), (req, res) => {
+      res.json(listCacheEntries());
+    });
 
-      if (!libraryData.artistMap[artist] || !libraryData.artistMap[artist][album]) {
-        res.status(404).send("Album not found");
+    this.app.get("/youtube/cache/pin/:id", this.requirePermission("admin"), (req, res) => {
+      const entry = setCachePinned(req.params.id, req.query.pinned !== "0");
+      if (!entry) {
+        res.status(404).send("Cache entry not found");
         return;
       }
-      const trackArr = libraryData.artistMap[artist][album];
-      const found = trackArr.find((t) => t["Name"] === title);
-      if (!found) {
-        res.status(404).send("Track not found");
+      res.json(entry);
+    });
+
+    this.app.get("/youtube/cache/delete/:id", this.requirePermission("admin"), (req, res) => {
+      const result = deleteCacheEntry(req.params.id);
+      if (result === "notFound") {
+        res.status(404).send("Cache entry not found");
+        return;
+      }
+      if (result === "inUse") {
+        res.status(409).send("Cache entry is currently queued");
+        return;
+      }
+      res.json({ result: "ok", message: `Deleted cache entry: ${req.params.id}` });
+    });
+
+    this.app.get("/library/health", this.requirePermission("admin"), (req, res) => {
+      const report = getLibraryHealthReport();
+      if (!report) {
+        res.status(503).send("Library health report is not ready");
+        return;
+      }
+      res.json(report);
+    });
+
+    this.app.get("/skip", this.requirePermission("control"), (req, res) => {
+      const guildId = this.extractGuildId(req, res);
+      if (!guildId) return;
+
+      const st = this.getGuildState(guildId);
+      if (!st) {
+        res.status(400).send("Bot is not joined in this guild");
+        return;
+      }
+
+      const result = voteSkip(st, getGuildSettings(guildId).voteSkip, res.locals.userId);
+      if (result.status === "notListener") {
+        res.status(403).send("Only listeners in the voice channel can vote to skip");
         return;
       }
 
-      const tracks = sequenceTracks(found);
-      st.requestQueue.push(...tracks);
       this.notifyQueueUpdate(guildId);
       res.json({
         result: "ok",
-        message: `Requested single track: ${title}`,
+        message: result.status === "skipped" ? "Skipped current track" : "Voted to skip",
+        votes: result.votes,
+        required: result.required,
       });
     });
 
-    this.app.get("/youtubeplay/:url", async (req, res) => {
+    this.app.get("/pause", this.requirePermission("control"), (req, res) => {
+      const guildId = this.extractGuildId(req, res);
+      if (!guildId) return;
+
+      const st = this.getGuildState(guildId);
+      if (!st) {
+        res.status(400).send("Bot is not joined in this guild");
+        return;
+      }
+
+      if (!pausePlayback(st)) {
+        res.status(409).send("Nothing is playing or already paused");
+        return;
+      }
+
+      this.notifyQueueUpdate(guildId);
+      res.json({ result: "ok", message: "Paused playback" });
+    });
+
+    this.app.get("/resume", this.requirePermission("control"), (req, res) => {
+      const guildId = this.extractGuildId(req, res);
+      if (!guildId) return;
+
+      const st = this.getGuildState(guildId);
+      if (!st) {
+        res.status(400).send("Bot is not joined in this guild");
+        return;
+      }
+
+      if (!resumePlayback(st)) {
+        res.status(409).send("Playback is not paused");
+        return;
+      }
+
+      this.notifyQueueUpdate(guildId);
+      res.json({ result: "ok", message: "Resumed playback" });
+    });
+
+    this.app.get("/seek/:position", this.requirePermission("control"), (req, res) => {
+      const guildId = this.extractGuildId(req, res);
+      if (!guildId) return;
+
+      const st = this.getGuildState(guildId);
+      if (!st) {
+        res.status(400).send("Bot is not joined in this guild");
+        return;
+      }
+
+      const position = Number(req.params.position);
+      if (!seekPlayback(st, position)) {
+        res
+          .status(400)
+          .send("Nothing is playing, the track is changing, or position is out of range");
+        return;
+      }
+
+      this.notifyQueueUpdate(guildId);
+      res.json({ result: "ok", message: `Seeked to ${position} seconds` });
+    });
+
+    this.app.get("/volume/:level", this.requirePermission("control"), (req, res) => {
       const guildId = this.extractGuildId(req, res);
       if (!guildId) return;
 
@@ -259,22 +756,67 @@ export class ApiServer {
         return;
       }
 
-      const url = req.params.url;
-      const trackInfo = await youtubeUrlToTrackInfo(url);
-      if (!trackInfo) {
-        res.status(400).send("Failed to convert YouTube URL to track info");
+      const volume = Number(req.params.level);
+      if (!setPlaybackVolume(st, guildId, volume)) {
+        res.status(400).send(`Volume must be between 0 and ${MAX_VOLUME}`);
+        return;
+      }
+
+      this.notifyQueueUpdate(guildId);
+      res.json({ result: "ok", message: `Set volume to ${volume}%` });
+    });
+
+    this.app.get("/settings", (req, res) => {
+      const guildId = this.extractGuildId(req, res);
+      if (!guildId) return;
+      res.json(getGuildSettings(guildId));
+    });
+
+    this.app.post("/settings", this.requirePermission("admin"), (req, res) => {
+      const guildId = this.extractGuildId(req, res);
+      if (!guildId) return;
+
+      const settings = updateGuildSettings(guildId, req.body);
+      if (typeof settings === "string") {
+        res.status(400).send(`Invalid settings: ${settings}`);
+        return;
+      }
+      // 音量の変更は再生中のトラックにも反映する
+      const st = this.getGuildState(guildId);
+      if (st) {
+        if (!setPlaybackVolume(st, guildId, settings.audio.volume)) {
+          res.status(400).send(`Volume must be between 0 and ${MAX_VOLUME}`);
+          return;
+        }
+        this.notifyQueueUpdate(guildId);
+      }
+      res.json(settings);
+    });
+
+    this.app.get("/queue/remove/:index", this.requirePermission("control"), (req, res) => {
+      const guildId = this.extractGuildId(req, res);
+      if (!guildId) return;
+
+      const st = this.getGuildState(guildId);
+      if (!st) {
+        res.status(400).send("Bot is not joined in this guild");
+        return;
+      }
+
+      const removed = removeQueueItem(st, Number(req.params.index));
+      if (!removed) {
+        res.status(404).send("Queue item not found");
         return;
       }
 
-      st.requestQueue.push(trackInfo);
       this.notifyQueueUpdate(guildId);
       res.json({
         result: "ok",
-        message: `Requested YouTube video: ${trackInfo.Name}`,
+        message: `Removed ${removed.length} track(s) from queue`,
       });
     });
 
-    this.app.get("/skip", (req, res) => {
+    this.app.get("/queue/move/:from/:to", this.requirePermission("control"), (req, res) => {
       const guildId = this.extractGuildId(req, res);
       if (!guildId) return;
 
@@ -284,8 +826,44 @@ export class ApiServer {
         return;
       }
 
-      st.worker.postMessage({ event: "skip" });
-      res.json({ result: "ok", message: "Skipped current track" });
+      const { from, to } = req.params;
+      if (!moveQueueItem(st, Number(from), Number(to))) {
+        res.status(404).send("Queue item not found");
+        return;
+      }
+
+      this.notifyQueueUpdate(guildId);
+      res.json({ result: "ok", message: `Moved queue item ${from} to ${to}` });
+    });
+
+    this.app.get("/queue/clear", this.requirePermission("control"), (req, res) => {
+      const guildId = this.extractGuildId(req, res);
+      if (!guildId) return;
+
+      const st = this.getGuildState(guildId);
+      if (!st) {
+        res.status(400).send("Bot is not joined in this guild");
+        return;
+      }
+
+      const count = clearQueue(st);
+      this.notifyQueueUpdate(guildId);
+      res.json({ result: "ok", message: `Cleared ${count} track(s) from queue` });
+    });
+
+    this.app.get("/queue/shuffle", this.requirePermission("control"), (req, res) => {
+      const guildId = this.extractGuildId(req, res);
+      if (!guildId) return;
+
+      const st = this.getGuildState(guildId);
+      if (!st) {
+        res.status(400).send("Bot is not joined in this guild");
+        return;
+      }
+
+      shuffleQueue(st);
+      this.notifyQueueUpdate(guildId);
+      res.json({ result: "ok", message: "Shuffled queue" });
     });
   }
 
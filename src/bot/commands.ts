@@ -0,0 +1,84 @@
+/**
+ * Discord スラッシュコマンドの定義と登録を行います。
+ */
+
+import { Client, InteractionContextType, SlashCommandBuilder } from "discord.js";
+import { MAX_VOLUME } from "../services/guildSettingsService.js";
+
+/** スラッシュコマンドの定義。ギルドの状態を使うため、すべてギルド内でのみ使用できる */
+export const commandDefinitions = [
+  new SlashCommandBuilder().setName("join").setDescription("ボイスチャンネルに参加します"),
+  new SlashCommandBuilder().setName("leave").setDescription("ボイスチャンネルから退出します"),
+  new SlashCommandBuilder()
+    .setName("play")
+    .setDescription("ライブラリの楽曲をキューに追加します")
+    .addStringOption((option) =>
+      option
+        .setName("query")
+        .setDescription("曲名・アーティスト・アルバムなど")
+        .setRequired(true)
+        .setAutocomplete(true)
+    ),
+  new SlashCommandBuilder()
+    .setName("youtube")
+    .setDescription("YouTube などの URL の音声をキューに追加します")
+    .addStringOption((option) =>
+      option
+        .setName("url")
+        .setDescription("YouTube・SoundCloud・ニコニコ動画・Bandcamp・音声ファイルの URL")
+        .setRequired(true)
+    ),
+  new SlashCommandBuilder()
+    .setName("playlist")
+    .setDescription("プレイリストの楽曲をキューに追加します")
+    .addStringOption((option) =>
+      option
+        .setName("name")
+        .setDescription("プレイリスト名")
+        .setRequired(true)
+        .setAutocomplete(true)
+    )
+    .addBooleanOption((option) =>
+      option.setName("shuffle").setDescription("シャッフルして追加します")
+    ),
+  new SlashCommandBuilder().setName("queue").setDescription("再生キューを表示します"),
+  new SlashCommandBuilder().setName("skip").setDescription("現在の楽曲をスキップします"),
+  new SlashCommandBuilder()
+    .setName("remove")
+    .setDescription("キューから楽曲を削除します")
+    .addIntegerOption((option) =>
+      option
+        .setName("index")
+        .setDescription("/queue に表示される番号")
+        .setRequired(true)
+        .setMinValue(0)
+    ),
+  new SlashCommandBuilder().setName("nowplaying").setDescription("再生中の楽曲を表示します"),
+  new SlashCommandBuilder()
+    .setName("token")
+    .setDescription("Web 操作用のアクセストークンを発行します"),
+  new SlashCommandBuilder().setName("pause").setDescription("再生を一時停止します"),
+  new SlashCommandBuilder().setName("resume").setDescription("一時停止中の再生を再開します"),
+  new SlashCommandBuilder()
+    .setName("volume")
+    .setDescription("再生音量を表示・変更します")
+    .addIntegerOption((option) =>
+      option
+        .setName("level")
+        .setDescription("音量（%、100 が標準）")
+        .setMinValue(0)
+        .setMaxValue(MAX_VOLUME)
+    ),
+].map((command) => command.setContexts(InteractionContextType.Guild));
+
+/**
+ * スラッシュコマンドを Discord に登録します。
+ * @param client ログイン済みの Discord クライアント
+ */
+export async function registerCommands(client: Client): Promise<void> {
+  if (!client.application) {
+    throw new Error("Client application is not available");
+  }
+  await client.application.commands.set(commandDefinitions.map((c) => c.toJSON()));
+  console.log(`[Discord Bot] Registered ${commandDefinitions.length} slash commands`);
+}
@@ -9,18 +9,72 @@
               if (isDevelopment && fs.existsSync(tsWorkerFile)) {管理を行います。
  */
 
-import { Client, Events, GatewayIntentBits, GuildMember, MessageFlags } from "discord.js";
+import {
+  AutocompleteInteraction,
+  ButtonInteraction,
+  ChatInputCommandInteraction,
+  Client,
+  Events,
+  GatewayIntentBits,
+  GuildMember,
+  MessageFlags,
+  PermissionFlagsBits,
+} from "discord.js";
 import { Worker } from "worker_threads";
 import path from "path";
 import fs from "fs";
 import { fileURLToPath } from "url";
-import { parseFile } from "music-metadata";
-import { GuildState, TrackInfo } from "../types/index.js";
-import { getRandomItem, sequenceTracks } from "../services/musicService.js";
+import { GuildState, PermissionLevel, PersistedGuildState, TrackInfo } from "../types/index.js";
+import { sequenceTracks } from "../services/musicService.js";
+import { ShuffleEngine } from "../services/shuffleService.js";
+import { finishHistoryEntry, startHistoryEntry } from "../services/historyService.js";
+import { getTotalDuration } from "../services/metadataService.js";
+import { getGuildSettings, MAX_CROSSFADE_SECONDS } from "../services/guildSettingsService.js";
+import {
+  getElapsedSeconds,
+  pausePlayback,
+  resumePlayback,
+  setPlaybackVolume,
+} from "../services/playbackService.js";
+import {
+  applyVoteSkip,
+  resetSkipVotes,
+  voteSkip,
+  VoteSkipResult,
+} from "../services/voteSkipService.js";
+import { loadGuildStates, saveGuildStates } from "../services/guildStateStore.js";
+import {
+  enqueueTrack,
+  enqueueTracks,
+  removeQueueItem,
+  takeNextQueueGroup,
+} from "../services/queueService.js";
+import { findTrackById, normalizeSearchText, searchLibrary } from "../services/searchService.js";
+import { getLibraryData, getPlaylist } from "../services/libraryService.js";
+import {
+  enqueueYoutubePlaylist,
+  enqueueRemoteRequest,
+  YoutubeJob,
+} from "../services/youtubeJobService.js";
+import { getYoutubePlaylistEntries, isYoutubePlaylistUrl } from "../services/ytDlpService.js";
+import { findRemoteSource } from "../services/remoteSourceService.js";
+import { touchCacheEntries } from "../services/youtubeCacheService.js";
+import { issueToken } from "../services/authService.js";
+import { registerCommands } from "./commands.js";
+import {
+  buildNowPlayingEmbed,
+  buildQueueMessage,
+  buildVoteSkipRow,
+  QUEUE_PAGE_BUTTON_PREFIX,
+  VOTE_SKIP_BUTTON_ID,
+} from "./embeds.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
+/** リクエスト上限に達したときの返信 */
+const REQUEST_LIMIT_MESSAGE = "リクエストの上限に達しているため、キューに追加できません。";
+
 /**
  * Discord Bot のメインクラス
  */
@@ -28,22 +82,52 @@ export class DiscordBot {
   private client: Client;
   private guildStateMap = new Map<string, GuildState>();
   private notifyQueueUpdate: (guildId: string) => void;
+  private notifyHistoryUpdate: (guildId: string) => void;
+  private notifyYoutubeJobUpdate: (guildId: string, job: YoutubeJob) => void;
+  private token: string;
+  private guildStatePath: string;
+  private restored = false;
+  private saveTimer: NodeJS.Timeout | null = null;
 
-  constructor(token: string, notifyQueueUpdate: (guildId: string) => void) {
+  constructor(
+    token: string,
+    notifyQueueUpdate: (guildId: string) => void,
+    notifyHistoryUpdate: (guildId: string) => void,
+    notifyYoutubeJobUpdate: (guildId: string, job: YoutubeJob) => void,
+    guildStatePath: string
+  ) {
     this.client = new Client({
       intents: [GatewayIntentBits.Guilds, GatewayIntentBits.GuildVoiceStates],
     });
     this.notifyQueueUpdate = notifyQueueUpdate;
+    this.notifyHistoryUpdate = notifyHistoryUpdate;
+    this.notifyYoutubeJobUpdate = notifyYoutubeJobUpdate;
+    this.token = token;
+    this.guildStatePath = guildStatePath;
     this.setupEvents(token);
   }
 
   private setupEvents(token: string) {
     this.client.once(Events.ClientReady, () => {
       console.log(`[Discord Bot] Logged in as ${this.client.user?.tag}`);
+      registerCommands(this.client).catch((err) =>
+        console.error("[Discord Bot] Failed to register slash commands:", err)
+      );
+      this.restoreGuildStates();
+      // 再生位置を保存するため定期的に状態を書き出す
+      setInterval(() => this.saveGuildStates(), 10000);
     });
 
     this.client.on(Events.InteractionCreate, async (interaction) => {
-      if (!interaction.isChatInputCommand()) return;
+      if (interaction.isAutocomplete()) {
+        await this.handleAutocomplete(interaction);
+        return;
+      }
+      if (interaction.isButton()) {
+        await this.handleButton(interaction);
+        return;
+      }
+      if (!interaction.isChatInputCommand() || !interaction.inGuild()) return;
 
       const { commandName } = interaction;
 
@@ -57,35 +141,7 @@ export class DiscordBot {
           return;
         }
 
-        const state: GuildState = {
-          currentTrack: [],
-          requestQueue: [],
-          worker: new Worker(
-            (() => {
-              const tsWorkerFile = path.join(__dirname, "../worker/discord/index.ts");
-              const jsWorkerFile = path.join(__dirname, "../worker/discord/index.js");
-
-              // NODE_ENVが未定義の場合は本番環境として扱う
-              const isDevelopment = process.env.NODE_ENV === "development";
-
-              if (isDevelopment && fs.existsSync(tsWorkerFile)) {
-                return tsWorkerFile;
-              } else if (fs.existsSync(jsWorkerFile)) {
-                return jsWorkerFile;
-              } else {
-                throw new Error(
-                  `Discord worker file not found. Checked: ${tsWorkerFile}, ${jsWorkerFile}`
-                );
-              }
-            })(),
-            {
-              workerData: { token, guildId: interaction.guildId, channelId: memberVC.id },
-            }
-          ),
-        };
-
-        this.guildStateMap.set(interaction.guildId!, state);
-        this.setupWorkerEvents(state, interaction.guildId!, interaction.guild?.name);
+        this.createGuildState(interaction.guildId!, memberVC.id, interaction.guild?.name);
 
         console.log(
           `[${interaction.guild?.name}] Joining VC: ${memberVC.name} (PlayingCount: ${this.guildStateMap.size})`
@@ -107,28 +163,576 @@ export class DiscordBot {
         setTimeout(() => {
           interaction.deleteReply().catch(console.log);
         }, 10000);
+      } else if (commandName === "pause" || commandName === "resume") {
+        if (!(await this.requirePermission(interaction, "control"))) return;
+        const state = this.guildStateMap.get(interaction.guildId!);
+        if (!state) {
+          await interaction.reply({
+            content: "ボイスチャンネルに参加していません。",
+            flags: MessageFlags.Ephemeral,
+          });
+          return;
+        }
+
+        const isPause = commandName === "pause";
+        const changed = isPause ? pausePlayback(state) : resumePlayback(state);
+        if (!changed) {
+          await interaction.reply({
+            content: isPause ? "再生中の曲がありません。" : "一時停止していません。",
+            flags: MessageFlags.Ephemeral,
+          });
+          return;
+        }
+
+        this.notifyQueueUpdate(interaction.guildId!);
+        await interaction.reply({
+          content: isPause ? "再生を一時停止しました。" : "再生を再開しました。",
+        });
+        setTimeout(() => {
+          interaction.deleteReply().catch(console.log);
+        }, 10000);
+      } else if (commandName === "play") {
+        await this.handlePlayCommand(interaction);
+      } else if (commandName === "youtube") {
+        await this.handleYoutubeCommand(interaction);
+      } else if (commandName === "playlist") {
+        await this.handlePlaylistCommand(interaction);
+      } else if (commandName === "queue") {
+        await interaction.reply(buildQueueMessage(this.guildStateMap.get(interaction.guildId!), 0));
+      } else if (commandName === "skip") {
+        const state = await this.requireGuildState(interaction);
+        if (!state) return;
+        const result = voteSkip(
+          state,
+          getGuildSettings(interaction.guildId!).voteSkip,
+          interaction.user.id
+        );
+        if (result.status === "notListener") {
+          await interaction.reply({
+            content: "ボイスチャンネルに参加しているユーザーのみ投票できます。",
+            flags: MessageFlags.Ephemeral,
+          });
+          return;
+        }
+        this.notifyQueueUpdate(interaction.guildId!);
+        await this.replyTemporary(interaction, this.describeVoteSkipResult(result));
+      } else if (commandName === "remove") {
+        if (!(await this.requirePermission(interaction, "control"))) return;
+        const state = await this.requireGuildState(interaction);
+        if (!state) return;
+        const removed = removeQueueItem(state, interaction.options.getInteger("index", true));
+        if (!removed) {
+          await interaction.reply({
+            content: "指定した番号の曲がキューにありません。",
+            flags: MessageFlags.Ephemeral,
+          });
+          return;
+        }
+        this.notifyQueueUpdate(interaction.guildId!);
+        await this.replyTemporary(
+          interaction,
+          `キューから ${removed.length} 曲削除しました: ${removed[0]["Name"]}`
+        );
+      } else if (commandName === "token") {
+        const { token, exp } = issueToken(interaction.user.id, interaction.guildId!);
+        await interaction.reply({
+          content:
+            `アクセストークンを発行しました（有効期限: <t:${Math.floor(exp / 1000)}:f>）。\n` +
+            "他の人に教えないでください。\n" +
+            `\`\`\`${token}\`\`\``,
+          flags: MessageFlags.Ephemeral,
+        });
+      } else if (commandName === "volume") {
+        await this.handleVolumeCommand(interaction);
+      } else if (commandName === "nowplaying") {
+        const embed = buildNowPlayingEmbed(this.guildStateMap.get(interaction.guildId!));
+        if (!embed) {
+          await interaction.reply({
+            content: "再生中の曲がありません。",
+            flags: MessageFlags.Ephemeral,
+          });
+          return;
+        }
+        await interaction.reply({ embeds: [embed], components: [buildVoteSkipRow()] });
       }
     });
 
     this.client.login(token);
   }
 
-  private async calculateTrackDuration(tracks: TrackInfo[]): Promise<number> {
-    if (tracks.length === 0) return 0;
+  /**
+   * 返信し、一定時間後に削除します。
+   * @param interaction 返信するインタラクション
+   * @param content 返信内容
+   */
+  private async replyTemporary(
+    interaction: ChatInputCommandInteraction,
+    content: string
+  ): Promise<void> {
+    if (interaction.deferred) {
+      await interaction.editReply({ content });
+    } else {
+      await interaction.reply({ content });
+    }
+    setTimeout(() => {
+      interaction.deleteReply().catch(console.log);
+    }, 10000);
+  }
+
+  /**
+   * スキップ投票の結果を表示用の文字列に変換します。
+   * @param result 投票の結果
+   * @returns 表示用の文字列
+   */
+  private describeVoteSkipResult(result: VoteSkipResult): string {
+    if (result.status === "skipped") return "スキップしました。";
+    return `スキップに投票しました（${result.votes} / ${result.required}）。`;
+  }
+
+  /**
+   * コマンドを実行したユーザーが操作の権限を持っているか確認します。
+   * 権限がない場合はその旨を返信します。REST API の同じ操作と同じ権限を求めます。
+   * @param interaction コマンドのインタラクション
+   * @param level 必要な権限
+   * @returns 権限を持っている場合は true
+   */
+  private async requirePermission(
+    interaction: ChatInputCommandInteraction,
+    level: PermissionLevel
+  ): Promise<boolean> {
+    if (await this.checkPermission(interaction.guildId!, interaction.user.id, level)) return true;
+
+    await interaction.reply({
+      content:
+        level === "admin"
+          ? "この操作には設定されたロール、またはサーバー管理権限が必要です。"
+          : "この操作は Bot と同じボイスチャンネルに参加しているか、設定されたロールを持つユーザーのみ実行できます。",
+      flags: MessageFlags.Ephemeral,
+    });
+    return false;
+  }
+
+  /**
+   * ギルドの状態を取得します。Bot が参加していない場合はその旨を返信します。
+   * @param interaction コマンドのインタラクション
+   * @returns ギルドの状態。参加していない場合は undefined
+   */
+  private async requireGuildState(
+    interaction: ChatInputCommandInteraction
+  ): Promise<GuildState | undefined> {
+    const state = this.guildStateMap.get(interaction.guildId!);
+    if (!state) {
+      await interaction.reply({
+        content: "ボイスチャンネルに参加していません。/join で参加してください。",
+        flags: MessageFlags.Ephemeral,
+      });
+    }
+    return state;
+  }
+
+  /**
+   * /play の入力値からトラックを求めます。
+   * オートコンプリートで選ばれた場合（"id:" 付きの Track ID）はそのトラック、
+   * そうでなければ検索結果の先頭を使用します。
+   * @param query 入力値
+   * @returns トラック情報。見つからない場合は undefined
+   */
+  private resolveTrack(query: string): TrackInfo | undefined {
+    const idMatch = query.match(/^id:(\d+)$/);
+    if (idMatch) {
+      const track = findTrackById(Number(idMatch[1]));
+      if (track) return track;
+    }
+
+    const [top] = searchLibrary(query, 1);
+    if (!top) return undefined;
+    if (top.trackId !== undefined) return findTrackById(top.trackId);
+    return getLibraryData().artistMap[top.artist]?.[top.album]?.find((t) => t.Name === top.title);
+  }
+
+  /**
+   * /play と /playlist のオートコンプリートに候補を返します。
+   * @param interaction オートコンプリートのインタラクション
+   */
+  private async handleAutocomplete(interaction: AutocompleteInteraction): Promise<void> {
+    const focused = interaction.options.getFocused();
+
+    if (interaction.commandName === "playlist") {
+      const needle = normalizeSearchText(focused);
+      const choices = getLibraryData()
+        .playlists.filter((p) => normalizeSearchText(p.name).includes(needle))
+        .slice(0, 25)
+        .map((p) => ({ name: `${p.name} (${p.tracks.length})`.slice(0, 100), value: p.id }));
+      await interaction.respond(choices).catch(console.log);
+      return;
+    }
+    if (interaction.commandName !== "play") return;
+
+    const choices = searchLibrary(focused, 25)
+      .filter((r) => r.trackId !== undefined)
+      .map((r) => ({
+        name: `${r.title} - ${r.trackArtist || r.artist} (${r.album})`.slice(0, 100),
+        // 数字だけの曲名の検索と区別するため、Track ID には接頭辞を付ける
+        value: `id:${r.trackId}`,
+      }));
+    await interaction.respond(choices).catch(console.log);
+  }
+
+  /**
+   * キュー表示のページ切り替えボタンと、スキップ投票ボタンを処理します。
+   * @param interaction ボタンのインタラクション
+   */
+  private async handleButton(interaction: ButtonInteraction): Promise<void> {
+    if (interaction.customId === VOTE_SKIP_BUTTON_ID) {
+      const state = this.guildStateMap.get(interaction.guildId!);
+      if (!state?.currentTrack || state.currentTrack.length === 0) {
+        await interaction.reply({
+          content: "再生中の曲がありません。",
+          flags: MessageFlags.Ephemeral,
+        });
+        return;
+      }
+      const result = voteSkip(
+        state,
+        getGuildSettings(interaction.guildId!).voteSkip,
+        interaction.user.id
+      );
+      if (result.status !== "notListener") {
+        this.notifyQueueUpdate(interaction.guildId!);
+      }
+      await interaction.reply({
+        content:
+          result.status === "notListener"
+            ? "ボイスチャンネルに参加しているユーザーのみ投票できます。"
+            : this.describeVoteSkipResult(result),
+        flags: MessageFlags.Ephemeral,
+      });
+      return;
+    }
+    if (!interaction.customId.startsWith(QUEUE_PAGE_BUTTON_PREFIX)) return;
+
+    const page = Number(interaction.customId.slice(QUEUE_PAGE_BUTTON_PREFIX.length)) || 0;
+    await interaction.update(buildQueueMessage(this.guildStateMap.get(interaction.guildId!), page));
+  }
+
+  /**
+   * /play コマンドを処理します。
+   * Discord の応答期限を過ぎないよう、キューへの追加の前に応答を保留します。
+   * @param interaction コマンドのインタラクション
+   */
+  private async handlePlayCommand(interaction: ChatInputCommandInteraction): Promise<void> {
+    const state = await this.requireGuildState(interaction);
+    if (!state) return;
+
+    const track = this.resolveTrack(interaction.options.getString("query", true));
+    if (!track) {
+      await interaction.reply({
+        content: "曲が見つかりませんでした。",
+        flags: MessageFlags.Ephemeral,
+      });
+      return;
+    }
+
+    // リクエスト上限の確認で再生時間を読み込むため、応答を保留してから追加する
+    await interaction.deferReply();
+    const tracks = await enqueueTrack(state, track, {
+      requestedBy: interaction.user.id,
+      limits: getGuildSettings(interaction.guildId!).requests,
+    });
+    if (!tracks) {
+      await interaction.editReply({ content: REQUEST_LIMIT_MESSAGE });
+      return;
+    }
+
+    this.notifyQueueUpdate(interaction.guildId!);
+    await this.replyTemporary(
+      interaction,
+      tracks.length > 1
+        ? `キューに追加しました: ${track["Name"]} ほか ${tracks.length - 1} 曲`
+        : `キューに追加しました: ${track["Name"]}`
+    );
+  }
+
+  /**
+   * /playlist コマンドを処理します。
+   * オートコンプリートで選ばれた場合はプレイリストID、そうでなければ名前で検索します。
+   * @param interaction コマンドのインタラクション
+   */
+  private async handlePlaylistCommand(interaction: ChatInputCommandInteraction): Promise<void> {
+    const state = await this.requireGuildState(interaction);
+    if (!state) return;
+
+    const name = interaction.options.getString("name", true);
+    const playlist = getPlaylist(name) ?? getLibraryData().playlists.find((p) => p.name === name);
+    if (!playlist) {
+      await interaction.reply({
+        content: "プレイリストが見つかりませんでした。",
+        flags: MessageFlags.Ephemeral,
+      });
+      return;
+    }
+
+    // 曲数が多いと追加に時間がかかるため、応答を保留してから追加する
+    await interaction.deferReply();
+    const shuffle = interaction.options.getBoolean("shuffle") ?? false;
+    const count = await enqueueTracks(state, playlist.tracks, {
+      shuffle,
+      requestedBy: interaction.user.id,
+      limits: getGuildSettings(interaction.guildId!).requests,
+    });
+    if (count === 0 && playlist.tracks.length > 0) {
+      await interaction.editReply({ content: REQUEST_LIMIT_MESSAGE });
+      return;
+    }
+
+    this.notifyQueueUpdate(interaction.guildId!);
+    await this.replyTemporary(
+      interaction,
+      `プレイリスト「${playlist.name}」から ${count} 曲を${shuffle ? "シャッフルして" : ""}キューに追加しました。`
+    );
+  }
+
+  /**
+   * /youtube コマンドを処理します。
+   * ダウンロードに時間がかかるため、先に返信してからダウンロードの結果で返信を更新します。
+   * @param interaction コマンドのインタラクション
+   */
+  private async handleYoutubeCommand(interaction: ChatInputCommandInteraction): Promise<void> {
+    const state = await this.requireGuildState(interaction);
+    if (!state) return;
+
+    const url = interaction.options.getString("url", true);
+    if (!findRemoteSource(url)) {
+      await interaction.reply({
+        content: "対応していない URL です。",
+        flags: MessageFlags.Ephemeral,
+      });
+      return;
+    }
+    if (isYoutubePlaylistUrl(url)) {
+      await this.handleYoutubePlaylist(interaction, state, url);
+      return;
+    }
+
+    const guildId = interaction.guildId!;
+    await interaction.deferReply();
+    const request = await enqueueRemoteRequest(
+      guildId,
+      state,
+      url,
+      { requestedBy: interaction.user.id, limits: getGuildSettings(guildId).requests },
+      (job) => this.notifyYoutubeJobUpdate(guildId, job)
+    );
+    if (!request) {
+      await interaction.editReply({ content: REQUEST_LIMIT_MESSAGE });
+      return;
+    }
+
+    this.notifyQueueUpdate(guildId);
+    await interaction.editReply({ content: "音声のダウンロードを開始しました。" });
+
+    const trackInfo = await request.done;
+    this.notifyQueueUpdate(guildId);
+    await interaction
+      .editReply({
+        content: trackInfo
+          ? `キューに追加しました: ${trackInfo.Name}`
+          : "音声を取得できませんでした。",
+      })
+      .catch(console.log);
+    setTimeout(() => {
+      interaction.deleteReply().catch(console.log);
+    }, 10000);
+  }
+
+  /**
+   * /youtube コマンドで指定されたプレイリストの動画をキューに追加します。
+   * 動画の一覧の取得に時間がかかるため、応答を保留してから結果を返信します。
+   * @param interaction コマンドのインタラクション
+   * @param state ギルドの状態
+   * @param url プレイリスト・ミックスの URL
+   */
+  private async handleYoutubePlaylist(
+    interaction: ChatInputCommandInteraction,
+    state: GuildState,
+    url: string
+  ): Promise<void> {
+    await interaction.deferReply();
+    const settings = getGuildSettings(interaction.guildId!);
+    const entries = await getYoutubePlaylistEntries(url, settings.youtube.maxPlaylistItems);
+    if (entries.length === 0) {
+      await interaction.editReply({ content: "YouTube のプレイリストを取得できませんでした。" });
+      return;
+    }
+
+    const count = await enqueueYoutubePlaylist(state, entries, {
+      requestedBy: interaction.user.id,
+      limits: settings.requests,
+    });
+    if (count === 0) {
+      await interaction.editReply({ content: REQUEST_LIMIT_MESSAGE });
+      return;
+    }
+
+    this.notifyQueueUpdate(interaction.guildId!);
+    await this.replyTemporary(
+      interaction,
+      `YouTube のプレイリストから ${count} 曲をキューに追加しました。`
+    );
+  }
+
+  /**
+   * /volume コマンドを処理します。
+   * 音量を指定しない場合は現在の音量を返信します。
+   * @param interaction コマンドのインタラクション
+   */
+  private async handleVolumeCommand(interaction: ChatInputCommandInteraction): Promise<void> {
+    const volume = interaction.options.getInteger("level");
+    if (volume === null) {
+      await interaction.reply({
+        content: `現在の音量は ${getGuildSettings(interaction.guildId!).audio.volume}% です。`,
+        flags: MessageFlags.Ephemeral,
+      });
+      return;
+    }
+
+    if (!(await this.requirePermission(interaction, "control"))) return;
+    const state = await this.requireGuildState(interaction);
+    if (!state) return;
+
+    if (!setPlaybackVolume(state, interaction.guildId!, volume)) {
+      await interaction.reply({
+        content: "音量の指定が正しくありません。",
+        flags: MessageFlags.Ephemeral,
+      });
+      return;
+    }
+    this.notifyQueueUpdate(interaction.guildId!);
+    await this.replyTemporary(interaction, `音量を ${volume}% に変更しました。`);
+  }
 
-    let totalDuration = 0;
-    for (const track of tracks) {
-      try {
-        const filePath = path.resolve(__dirname, "../", track._relativePath);
-        const metadata = await parseFile(filePath);
-        if (metadata.format.duration) {
-          totalDuration += metadata.format.duration;
+  /**
+   * 再生ワーカーを起動し、ギルドの状態を作成します。
+   * @param guildId ギルドID
+   * @param channelId 参加するボイスチャンネルのID
+   * @param guildName ログ出力用のギルド名
+   * @returns 作成したギルドの状態
+   */
+  private createGuildState(guildId: string, channelId: string, guildName?: string): GuildState {
+    const state: GuildState = {
+      currentTrack: [],
+      requestQueue: [],
+      channelId,
+      shuffleEngine: new ShuffleEngine(),
+      listeners: [],
+      skipVotes: new Set(),
+      worker: new Worker(
+        (() => {
+          const tsWorkerFile = path.join(__dirname, "../worker/discord/index.ts");
+          const jsWorkerFile = path.join(__dirname, "../worker/discord/index.js");
+
+          // NODE_ENVが未定義の場合は本番環境として扱う
+          const isDevelopment = process.env.NODE_ENV === "development";
+
+          if (isDevelopment && fs.existsSync(tsWorkerFile)) {
+            return tsWorkerFile;
+          } else if (fs.existsSync(jsWorkerFile)) {
+            return jsWorkerFile;
+          } else {
+            throw new Error(
+              `Discord worker file not found. Checked: ${tsWorkerFile}, ${jsWorkerFile}`
+            );
+          }
+        })(),
+        {
+          workerData: {
+            token: this.token,
+            guildId,
+            channelId,
+            volume: getGuildSettings(guildId).audio.volume,
+          },
         }
-      } catch (error) {
-        console.warn(`[Discord Bot] Could not get duration for ${track._relativePath}:`, error);
+      ),
+    };
+
+    this.guildStateMap.set(guildId, state);
+    this.setupWorkerEvents(state, guildId, guildName);
+    return state;
+  }
+
+  /**
+   * 保存されたギルド状態を読み込み、再生中だったギルドのボイスチャンネルに再参加します。
+   * 再生中だったトラックは保存時の再生位置から再開し、一時停止中だった場合は一時停止したままにします。
+   * 履歴にはリクエストか自動再生かを保存時と同じ種類で記録します。
+   */
+  private restoreGuildStates(): void {
+    for (const saved of loadGuildStates(this.guildStatePath)) {
+      const hasTrack = !!saved.currentTrack && saved.currentTrack.length > 0;
+      if (!hasTrack && saved.requestQueue.length === 0) continue;
+
+      const guild = this.client.guilds.cache.get(saved.guildId);
+      if (!guild) {
+        console.warn(`[Discord Bot] Skipped restoring unknown guild: ${saved.guildId}`);
+        continue;
+      }
+
+      const state = this.createGuildState(saved.guildId, saved.channelId, guild.name);
+      state.requestQueue = saved.requestQueue;
+      if (hasTrack) {
+        state.pendingResume = {
+          tracks: saved.currentTrack!,
+          position: saved.position,
+          paused: saved.paused === true,
+          source: saved.source ?? "request",
+        };
       }
+      console.log(
+        `[${guild.name}] Restoring VC: ${saved.channelId} (Queue: ${saved.requestQueue.length})`
+      );
+    }
+
+    this.restored = true;
+    this.saveGuildStates();
+  }
+
+  /**
+   * ギルド状態の保存を予約します。
+   * 短時間に連続して呼ばれた場合はまとめて1回だけ保存します。
+   */
+  public saveGuildStates(): void {
+    if (!this.restored || this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.flushGuildStates();
+    }, 1000);
+  }
+
+  /**
+   * ギルド状態を即座に保存します。
+   */
+  public flushGuildStates(): void {
+    if (!this.restored) return;
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+
+    const states: PersistedGuildState[] = [];
+    for (const [guildId, st] of this.guildStateMap) {
+      states.push({
+        guildId,
+        channelId: st.channelId,
+        currentTrack: st.pendingResume?.tracks ?? st.currentTrack,
+        // ダウンロード中のジョブは再起動後に引き継げないため、ダウンロード前の状態として保存する
+        requestQueue: st.requestQueue.map((t) =>
+          t._pendingJobId ? { ...t, _pendingJobId: undefined, _downloadProgress: undefined } : t
+        ),
+        position: st.pendingResume?.position ?? getElapsedSeconds(st),
+        paused: st.pendingResume?.paused ?? st.pausedAt !== undefined,
+        source: st.pendingResume?.source ?? st.currentSource,
+      });
     }
-    return totalDuration;
+    saveGuildStates(this.guildStatePath, states);
   }
 
   private setupWorkerEvents(state: GuildState, guildId: string, guildName?: string) {
@@ -136,37 +740,20 @@ export class DiscordBot {
 
     worker.on("message", async (message) => {
       if (message.event === "requestNext") {
-        if (state.requestQueue.length > 0) {
-          const tracks = sequenceTracks(state.requestQueue.shift()!);
-          const trackCount = tracks.length;
-          for (let i = 0; i < trackCount - 1; i++) {
-            state.requestQueue.shift();
-          }
-          state.currentTrack = tracks;
-          state.playbackStartTime = Date.now();
-          state.currentTrackDuration = await this.calculateTrackDuration(tracks);
-          this.notifyQueueUpdate(guildId);
-          worker.postMessage({ event: "play", data: tracks });
-          return;
+        // 次のトラックを決めて再生を指示するまでは、シークを受け付けない
+        state.switchingTrack = true;
+        try {
+          await this.playNext(state, guildId, !!message.crossfade);
+        } finally {
+          state.switchingTrack = false;
         }
-
-        const randItem = getRandomItem();
-        if (randItem) {
-          const tracks = sequenceTracks(randItem);
-          state.currentTrack = tracks;
-          state.playbackStartTime = Date.now();
-          state.currentTrackDuration = await this.calculateTrackDuration(tracks);
-          this.notifyQueueUpdate(guildId);
-          worker.postMessage({ event: "play", data: tracks });
-          return;
-        }
-
-        state.currentTrack = null;
-        state.playbackStartTime = undefined;
-        state.currentTrackDuration = undefined;
-        worker.postMessage({ event: "leave" });
-        return;
+      } else if (message.event === "listeners") {
+        state.listeners = message.listeners ?? [];
+        // リスナーが減って必要な投票数に達した場合はスキップする
+        applyVoteSkip(state, getGuildSettings(guildId).voteSkip);
+        this.notifyQueueUpdate(guildId);
       } else if (message.event === "disconnect") {
+        finishHistoryEntry(guildId, state);
         worker.postMessage({ event: "shutdown" });
         this.guildStateMap.delete(guildId);
         this.notifyQueueUpdate(guildId);
@@ -176,6 +763,136 @@ export class DiscordBot {
         console.log(`[${guildName}] Worker log:`, message.message);
       }
     });
+
+    worker.on("exit", (code) => {
+      // 初期化に失敗した場合など、disconnect を送らずに終了したワーカーの状態を破棄する
+      if (this.guildStateMap.get(guildId) !== state) return;
+      console.warn(`[${guildName}] Worker exited with code ${code}`);
+      this.guildStateMap.delete(guildId);
+      this.notifyQueueUpdate(guildId);
+    });
+  }
+
+  /**
+   * 再生ワーカーから次のトラックを要求されたときに、次に再生するトラックを決めて再生を指示します。
+   * 再起動前のトラック、リクエストキュー、自動再生の順に選び、何もなければボイスチャンネルから退出します。
+   * @param state ギルドの状態
+   * @param guildId ギルドID
+   * @param crossfade クロスフェードのために曲の終わりより前に要求された場合は true
+   */
+  private async playNext(state: GuildState, guildId: string, crossfade: boolean): Promise<void> {
+    resetSkipVotes(state);
+    // クロスフェードの要求の後に一時停止された場合は、次のトラックも一時停止したまま始める
+    const keepPaused = crossfade && state.pausedAt !== undefined;
+    if (state.pendingResume) {
+      const { tracks, position, paused, source } = state.pendingResume;
+      state.pendingResume = undefined;
+      state.currentTrack = tracks;
+      startHistoryEntry(guildId, state, tracks, source);
+      this.notifyHistoryUpdate(guildId);
+      state.playbackStartTime = Date.now() - position * 1000;
+      state.pausedAt = paused ? Date.now() : undefined;
+      state.currentTrackDuration = await getTotalDuration(tracks);
+      this.notifyQueueUpdate(guildId);
+      this.postPlay(state, guildId, tracks, position);
+      return;
+    }
+
+    // リクエストしたユーザーの情報を残すため、ライブラリではなくキューのトラックを使う
+    // ダウンロード中のリクエストは飛ばし、完了したものから再生する
+    const tracks = takeNextQueueGroup(state);
+    if (tracks) {
+      state.currentTrack = tracks;
+      state.shuffleEngine.recordPlayed(tracks, getGuildSettings(guildId).shuffle);
+      startHistoryEntry(guildId, state, tracks, "request");
+      this.notifyHistoryUpdate(guildId);
+      state.playbackStartTime = Date.now();
+      state.pausedAt = keepPaused ? state.playbackStartTime : undefined;
+      state.currentTrackDuration = await getTotalDuration(tracks);
+      this.notifyQueueUpdate(guildId);
+      this.postPlay(state, guildId, tracks);
+      return;
+    }
+
+    const shuffleSettings = getGuildSettings(guildId).shuffle;
+    const randItem = state.shuffleEngine.next(shuffleSettings);
+    if (randItem) {
+      const tracks = sequenceTracks(randItem);
+      state.currentTrack = tracks;
+      state.shuffleEngine.recordPlayed(tracks, shuffleSettings);
+      startHistoryEntry(guildId, state, tracks, "autoplay");
+      this.notifyHistoryUpdate(guildId);
+      state.playbackStartTime = Date.now();
+      state.pausedAt = keepPaused ? state.playbackStartTime : undefined;
+      state.currentTrackDuration = await getTotalDuration(tracks);
+      this.notifyQueueUpdate(guildId);
+      this.postPlay(state, guildId, tracks);
+      return;
+    }
+
+    finishHistoryEntry(guildId, state);
+    this.notifyHistoryUpdate(guildId);
+    state.currentTrack = null;
+    state.playbackStartTime = undefined;
+    state.currentTrackDuration = undefined;
+    state.pausedAt = undefined;
+    state.worker.postMessage({ event: "leave" });
+  }
+
+  /**
+   * 再生ワーカーにトラックの再生を指示します。
+   * 次のトラックとクロスフェードでつなぐため、再生時間とクロスフェードの長さも渡します。
+   * 一時停止中の場合は、一時停止したまま始めるよう指示します。
+   * @param state ギルドの状態
+   * @param guildId ギルドID
+   * @param tracks 再生するトラックの配列
+   * @param position 再生開始位置（秒）
+   */
+  private postPlay(state: GuildState, guildId: string, tracks: TrackInfo[], position?: number) {
+    const { crossfadeSeconds } = getGuildSettings(guildId).audio;
+    touchCacheEntries(tracks);
+    state.worker.postMessage({
+      event: "play",
+      data: tracks,
+      position,
+      transition: {
+        crossfade: Math.min(Math.max(crossfadeSeconds, 0), MAX_CROSSFADE_SECONDS),
+        duration: state.currentTrackDuration,
+      },
+      paused: state.pausedAt !== undefined,
+    });
+  }
+
+  /**
+   * ユーザーがギルドで操作を行う権限を持っているか確認します。
+   * @param guildId ギルドID
+   * @param userId Discord ユーザーID
+   * @param level 必要な権限
+   * @returns 権限を持っている場合は true
+   */
+  public async checkPermission(
+    guildId: string,
+    userId: string,
+    level: PermissionLevel
+  ): Promise<boolean> {
+    const guild = this.client.guilds.cache.get(guildId);
+    if (!guild) return false;
+
+    const state = this.guildStateMap.get(guildId);
+    if (
+      level === "control" &&
+      state &&
+      guild.voiceStates.cache.get(userId)?.channelId === state.channelId
+    ) {
+      return true;
+    }
+
+    const member = await guild.members.fetch(userId).catch(() => null);
+    if (!member) return false;
+    if (member.permissions.has(PermissionFlagsBits.ManageGuild)) return true;
+
+    const { allowedRoleIds } = getGuildSettings(guildId).permissions;
+    return member.roles.cache.some((role) => allowedRoleIds.includes(role.id));
   }
 
   public getGuildState(guildId: string): GuildState | undefined {
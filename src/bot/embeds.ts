@@ -0,0 +1,130 @@
+/**
+ * Discord に表示する埋め込みメッセージを生成します。
+ * 再生キューのページ表示と、再生中の楽曲の表示を行います。
+ */
+
+import { ActionRowBuilder, ButtonBuilder, ButtonStyle, EmbedBuilder } from "discord.js";
+import { GuildState, TrackInfo } from "../types/index.js";
+import { getElapsedSeconds } from "../services/playbackService.js";
+
+/** キュー表示の1ページあたりの件数 */
+export const QUEUE_PAGE_SIZE = 10;
+
+/** キューのページ切り替えボタンの customId 接頭辞 */
+export const QUEUE_PAGE_BUTTON_PREFIX = "queue:";
+
+/** スキップ投票ボタンの customId */
+export const VOTE_SKIP_BUTTON_ID = "voteskip";
+
+/**
+ * 秒数を m:ss 形式に変換します。
+ * @param seconds 秒数
+ * @returns m:ss 形式の文字列
+ */
+export function formatDuration(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, "0")}`;
+}
+
+/**
+ * トラックを1行の表示用文字列に変換します。
+ * @param track トラック情報
+ * @returns 表示用文字列
+ */
+function describeTrack(track: TrackInfo): string {
+  const title = (track["Name"] as string) || "(不明)";
+  const artist = (track["アーティスト"] as string) || "";
+  return artist ? `${title} - ${artist}` : title;
+}
+
+/**
+ * 再生キューのページを表示するメッセージを生成します。
+ * 番号は /queue API の QueueItem.index と同じく、再生中のトラックから数えます。
+ * @param state ギルドの状態
+ * @param page 表示するページ番号（0始まり）
+ * @returns 埋め込みとページ切り替えボタン
+ */
+export function buildQueueMessage(state: GuildState | undefined, page: number) {
+  const current = state?.currentTrack ?? [];
+  const entries = [
+    ...current.map((t) => ({ track: t, isCurrent: true })),
+    ...(state?.requestQueue ?? []).map((t) => ({ track: t, isCurrent: false })),
+  ];
+
+  const pageCount = Math.max(1, Math.ceil(entries.length / QUEUE_PAGE_SIZE));
+  const currentPage = Math.min(Math.max(page, 0), pageCount - 1);
+  const lines = entries
+    .slice(currentPage * QUEUE_PAGE_SIZE, (currentPage + 1) * QUEUE_PAGE_SIZE)
+    .map(({ track, isCurrent }, i) => {
+      const index = currentPage * QUEUE_PAGE_SIZE + i;
+      const requester = track._requestedBy ? ` (<@${track._requestedBy}>)` : "";
+      return `${isCurrent ? "▶" : "　"} \`${index}\` ${describeTrack(track)}${requester}`;
+    });
+
+  const embed = new EmbedBuilder()
+    .setTitle("再生キュー")
+    .setDescription(lines.length > 0 ? lines.join("\n") : "キューは空です。")
+    .setFooter({
+      text: `${currentPage + 1} / ${pageCount} ページ（リクエスト ${state?.requestQueue.length ?? 0} 曲）`,
+    });
+
+  const row = new ActionRowBuilder<ButtonBuilder>().addComponents(
+    new ButtonBuilder()
+      .setCustomId(`${QUEUE_PAGE_BUTTON_PREFIX}${currentPage - 1}`)
+      .setLabel("前へ")
+      .setStyle(ButtonStyle.Secondary)
+      .setDisabled(currentPage === 0),
+    new ButtonBuilder()
+      .setCustomId(`${QUEUE_PAGE_BUTTON_PREFIX}${currentPage + 1}`)
+      .setLabel("次へ")
+      .setStyle(ButtonStyle.Secondary)
+      .setDisabled(currentPage >= pageCount - 1)
+  );
+
+  return { embeds: [embed], components: [row] };
+}
+
+/**
+ * 再生中の楽曲を表示する埋め込みを生成します。
+ * @param state ギルドの状態
+ * @returns 埋め込み。再生中の楽曲がない場合は null
+ */
+export function buildNowPlayingEmbed(state: GuildState | undefined): EmbedBuilder | null {
+  if (!state?.currentTrack || state.currentTrack.length === 0) return null;
+
+  const first = state.currentTrack[0];
+  const elapsed = getElapsedSeconds(state);
+  const total = state.currentTrackDuration ?? 0;
+  const status = state.pausedAt !== undefined ? "⏸ 一時停止中" : "▶ 再生中";
+
+  const embed = new EmbedBuilder()
+    .setTitle(state.currentTrack.map(describeTrack).join("\n").slice(0, 256))
+    .addFields(
+      { name: "アルバム", value: (first["アルバム"] as string) || "-", inline: true },
+      {
+        name: "アルバムアーティスト",
+        value:
+          (first["アルバムアーティスト"] as string) || (first["アーティスト"] as string) || "-",
+        inline: true,
+      },
+      {
+        name: status,
+        value: `${formatDuration(Math.min(elapsed, total || elapsed))} / ${formatDuration(total)}`,
+      }
+    );
+
+  return embed;
+}
+
+/**
+ * 再生中の楽曲の表示に付けるスキップ投票ボタンを生成します。
+ * @returns スキップ投票ボタンの行
+ */
+export function buildVoteSkipRow(): ActionRowBuilder<ButtonBuilder> {
+  return new ActionRowBuilder<ButtonBuilder>().addComponents(
+    new ButtonBuilder()
+      .setCustomId(VOTE_SKIP_BUTTON_ID)
+      .setLabel("スキップに投票")
+      .setStyle(ButtonStyle.Primary)
+  );
+}
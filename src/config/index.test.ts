@@ -0,0 +1,60 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+/**
+ * 環境変数を設定して設定モジュールを読み込み直し、パスの変換ルールを取得します。
+ * @param value 環境変数 LIBRARY_PATH_MAPPINGS の値
+ * @returns 読み込んだパスの変換ルール
+ */
+async function loadPathMappings(value: string | undefined) {
+  vi.stubEnv("LIBRARY_PATH_MAPPINGS", value);
+  vi.resetModules();
+  const { LIBRARY_PATH_MAPPINGS } = await import("./index.js");
+  return LIBRARY_PATH_MAPPINGS;
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+describe("LIBRARY_PATH_MAPPINGS", () => {
+  it("設定されていない場合は空の配列になる", async () => {
+    expect(await loadPathMappings(undefined)).toEqual([]);
+  });
+
+  it("JSON の配列のルールを読み込む", async () => {
+    const rules = [
+      { from: "C:/Music", to: "/mnt/music" },
+      { from: "//nas/share", to: "../music" },
+    ];
+
+    expect(await loadPathMappings(JSON.stringify(rules))).toEqual(rules);
+  });
+
+  it("JSON として読み込めない場合はルールを使わない", async () => {
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    expect(await loadPathMappings("[{from:")).toEqual([]);
+    expect(error).toHaveBeenCalled();
+  });
+
+  it("配列でない場合はルールを使わない", async () => {
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    expect(await loadPathMappings('{"from": "C:/Music", "to": "/mnt/music"}')).toEqual([]);
+    expect(error).toHaveBeenCalled();
+  });
+
+  it("形式が正しくないルールだけを無視する", async () => {
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    const value = JSON.stringify([
+      { from: "C:/Music", to: "/mnt/music" },
+      { from: "D:/Music" },
+      "E:/Music",
+      null,
+    ]);
+
+    expect(await loadPathMappings(value)).toEqual([{ from: "C:/Music", to: "/mnt/music" }]);
+    expect(error).toHaveBeenCalledTimes(3);
+  });
+});
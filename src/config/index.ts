@@ -4,8 +4,78 @@ dotenv.config();
 
 export const DISCORD_TOKEN = process.env.DISCORD_TOKEN ?? "";
 
+export const API_TOKEN_SECRET = process.env.API_TOKEN_SECRET ?? "";
+
+export const API_TOKEN_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+export const LIBRARY_PROVIDER: "itunes" | "directory" =
+  process.env.LIBRARY_PROVIDER === "directory" ? "directory" : "itunes";
+
 export const LIBRARY_XML_PATH = "../../iTunes Music Library.xml";
 
+/**
+ * 環境変数 LIBRARY_PATH_MAPPINGS のパスの変換ルールを読み込みます。
+ * JSON として読み込めない場合や、{ from: string, to: string } の形式でないルールはエラーを出力して無視します。
+ * @param value 環境変数の値
+ * @returns パスの変換ルールの配列。設定されていない場合は空の配列
+ */
+function parseLibraryPathMappings(value: string | undefined): { from: string; to: string }[] {
+  if (!value) return [];
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch (error) {
+    console.error("[Config] LIBRARY_PATH_MAPPINGS is not valid JSON. No rules are used:", error);
+    return [];
+  }
+  if (!Array.isArray(parsed)) {
+    console.error("[Config] LIBRARY_PATH_MAPPINGS must be a JSON array. No rules are used.");
+    return [];
+  }
+
+  return parsed.filter((rule, index): rule is { from: string; to: string } => {
+    const valid =
+      typeof rule === "object" &&
+      rule !== null &&
+      typeof rule.from === "string" &&
+      typeof rule.to === "string";
+    if (!valid) {
+      console.error(
+        `[Config] Ignored LIBRARY_PATH_MAPPINGS[${index}]: expected {"from": string, "to": string}, ` +
+          `got ${JSON.stringify(rule)}`
+      );
+    }
+    return valid;
+  });
+}
+
+export const LIBRARY_PATH_MAPPINGS = parseLibraryPathMappings(process.env.LIBRARY_PATH_MAPPINGS);
+
+export const LIBRARY_DIRECTORY = process.env.LIBRARY_DIRECTORY ?? "../../Music";
+
+export const LIBRARY_SCAN_CACHE_PATH = "../library_scan_cache.json";
+
+export const LIBRARY_HEALTH_CACHE_PATH = "../library_health_cache.json";
+
+export const LIBRARY_SCAN_INTERVAL_MS = 10 * 60 * 1000;
+
+export const GUILD_STATE_PATH = "../guild_states.json";
+
+export const GUILD_SETTINGS_PATH = "../guild_settings.json";
+
+export const PLAY_HISTORY_PATH = "../play_history.json";
+
+export const PLAY_HISTORY_SIZE = 100;
+
+export const YOUTUBE_CACHE_MAX_BYTES =
+  Number(process.env.YOUTUBE_CACHE_MAX_BYTES) || 10 * 1024 * 1024 * 1024;
+
+export const UPLOAD_MAX_BYTES = Number(process.env.UPLOAD_MAX_BYTES) || 100 * 1024 * 1024;
+
+export const UPLOAD_RETENTION_MS =
+  (Number(process.env.UPLOAD_RETENTION_HOURS) || 24) * 60 * 60 * 1000;
+
 export const PORT = 8180;
 
 export const allowedOriginsRegex = /^https?:\/\/(?:localhost(?::\d+)?|botrequest\.hinasense\.jp)$/;
@@ -6,35 +6,128 @@
 
 import path from "path";
 import { fileURLToPath } from "url";
-import { DISCORD_TOKEN, LIBRARY_XML_PATH, PORT } from "./config/index.js";
-import { watchLibraryFile } from "./services/libraryService.js";
+import {
+  DISCORD_TOKEN,
+  GUILD_SETTINGS_PATH,
+  GUILD_STATE_PATH,
+  PLAY_HISTORY_PATH,
+  LIBRARY_DIRECTORY,
+  LIBRARY_HEALTH_CACHE_PATH,
+  LIBRARY_PATH_MAPPINGS,
+  LIBRARY_PROVIDER,
+  LIBRARY_SCAN_CACHE_PATH,
+  LIBRARY_XML_PATH,
+  PORT,
+} from "./config/index.js";
+import { watchLibraryDirectory, watchLibraryFile } from "./services/libraryService.js";
 import { notificationService } from "./services/notificationService.js";
+import { initGuildSettings } from "./services/guildSettingsService.js";
+import { initHistory } from "./services/historyService.js";
+import { initYoutubeCache } from "./services/youtubeCacheService.js";
+import { initUploads } from "./services/uploadService.js";
 import { DiscordBot } from "./bot/discordBot.js";
 import { ApiServer } from "./api/apiServer.js";
 import { WebSocketService } from "./websocket/webSocketService.js";
+import { LibraryDiff, PermissionLevel } from "./types/index.js";
+import {
+  initYoutubeJobs,
+  prefetchYoutubeRequests,
+  YoutubeJob,
+} from "./services/youtubeJobService.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
 const libraryXmlPath = path.join(__dirname, LIBRARY_XML_PATH);
+const guildStatePath = path.join(__dirname, GUILD_STATE_PATH);
 
-const discordBot = new DiscordBot(DISCORD_TOKEN, (guildId: string) =>
-  notificationService.notifyQueueUpdate(guildId)
+initGuildSettings(path.join(__dirname, GUILD_SETTINGS_PATH));
+initHistory(path.join(__dirname, PLAY_HISTORY_PATH));
+
+const onQueueUpdate = (guildId: string) => {
+  discordBot.saveGuildStates();
+  // キューの先頭に近づいた YouTube のリクエストをダウンロードしておく
+  const state = discordBot.getGuildState(guildId);
+  if (state) {
+    prefetchYoutubeRequests(
+      guildId,
+      state,
+      (job) => onYoutubeJobUpdate(guildId, job),
+      () => onQueueUpdate(guildId)
+    );
+  }
+  notificationService.notifyQueueUpdate(guildId);
+};
+
+const onYoutubeJobUpdate = (guildId: string, job: YoutubeJob) =>
+  notificationService.notifyYoutubeJobUpdate(guildId, job);
+
+const discordBot = new DiscordBot(
+  DISCORD_TOKEN,
+  onQueueUpdate,
+  (guildId: string) => notificationService.notifyHistoryUpdate(guildId),
+  onYoutubeJobUpdate,
+  guildStatePath
 );
 
+// 再生中・キューに入っているダウンロード・アップロードしたファイルは削除しない
+const getQueuedPaths = () =>
+  [...discordBot.getAllGuildStates().values()].flatMap((st) =>
+    [...(st.pendingResume?.tracks ?? st.currentTrack ?? []), ...st.requestQueue].map(
+      (t) => t._relativePath
+    )
+  );
+initYoutubeCache(getQueuedPaths);
+initUploads(getQueuedPaths);
+initYoutubeJobs((guildId: string) => discordBot.getGuildState(guildId));
+
 const apiServer = new ApiServer(
   (guildId: string) => discordBot.getGuildState(guildId),
-  (guildId: string) => notificationService.notifyQueueUpdate(guildId)
+  onQueueUpdate,
+  onYoutubeJobUpdate,
+  (guildId: string, userId: string, level: PermissionLevel) =>
+    discordBot.checkPermission(guildId, userId, level)
 );
 
 const server = apiServer.listen(PORT);
 
-const webSocketService = new WebSocketService(server, (guildId: string) =>
-  discordBot.getGuildState(guildId)
+const webSocketService = new WebSocketService(
+  server,
+  (guildId: string) => discordBot.getGuildState(guildId),
+  (guildId: string, userId: string, level: PermissionLevel) =>
+    discordBot.checkPermission(guildId, userId, level)
 );
 
 notificationService.setWebSocketService(webSocketService);
 
-watchLibraryFile(libraryXmlPath);
+const onLibraryUpdate = (diff: LibraryDiff) => notificationService.notifyLibraryUpdate(diff);
+
+if (LIBRARY_PROVIDER === "directory") {
+  watchLibraryDirectory(
+    path.resolve(__dirname, LIBRARY_DIRECTORY),
+    path.join(__dirname, LIBRARY_SCAN_CACHE_PATH),
+    path.join(__dirname, LIBRARY_HEALTH_CACHE_PATH),
+    onLibraryUpdate
+  );
+} else {
+  // 変換先の相対パスは他の設定と同じく dist からのパスとして扱う
+  watchLibraryFile(
+    libraryXmlPath,
+    LIBRARY_PATH_MAPPINGS.map((rule) => ({
+      from: rule.from,
+      to: path.resolve(__dirname, rule.to),
+    })),
+    path.join(__dirname, LIBRARY_HEALTH_CACHE_PATH),
+    onLibraryUpdate
+  );
+}
+
+for (const signal of ["SIGINT", "SIGTERM"] as const) {
+  process.on(signal, () => {
+    console.log(`[Main] Received ${signal}, saving guild states...`);
+    discordBot.flushGuildStates();
+    process.exit(0);
+  });
+}
 
 console.log("[Main] All services initialized successfully");
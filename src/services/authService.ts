@@ -0,0 +1,72 @@
+/**
+ * API・WebSocket の認証を行うサービスです。
+ * Bot のコマンドで発行した署名付きトークンを検証し、
+ * リクエストを Discord ユーザーとギルドに対応付けます。
+ */
+
+import crypto from "crypto";
+import { API_TOKEN_SECRET, API_TOKEN_TTL_MS } from "../config/index.js";
+
+/** トークンに含まれる情報 */
+export interface TokenPayload {
+  userId: string;
+  guildId: string;
+  exp: number;
+}
+
+const secret = (() => {
+  if (API_TOKEN_SECRET) return API_TOKEN_SECRET;
+  console.warn(
+    "[Auth] API_TOKEN_SECRET is not set. Using a random secret; issued tokens will be invalid after restart."
+  );
+  return crypto.randomBytes(32).toString("hex");
+})();
+
+/**
+ * 文字列に署名します。
+ * @param data 署名する文字列
+ * @returns base64url 形式の署名
+ */
+function sign(data: string): string {
+  return crypto.createHmac("sha256", secret).update(data).digest("base64url");
+}
+
+/**
+ * ユーザーとギルドに対応するトークンを発行します。
+ * @param userId Discord ユーザーID
+ * @param guildId ギルドID
+ * @returns トークンと有効期限
+ */
+export function issueToken(userId: string, guildId: string): { token: string; exp: number } {
+  const exp = Date.now() + API_TOKEN_TTL_MS;
+  const payload: TokenPayload = { userId, guildId, exp };
+  const encoded = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  return { token: `${encoded}.${sign(encoded)}`, exp };
+}
+
+/**
+ * トークンを検証します。
+ * @param token トークン
+ * @returns トークンに含まれる情報。署名が不正、または期限切れの場合は null
+ */
+export function verifyToken(token: string | undefined | null): TokenPayload | null {
+  if (!token) return null;
+
+  const [encoded, signature] = token.split(".");
+  if (!encoded || !signature) return null;
+
+  const expected = Buffer.from(sign(encoded));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const payload = JSON.parse(Buffer.from(encoded, "base64url").toString()) as TokenPayload;
+    if (typeof payload.userId !== "string" || typeof payload.guildId !== "string") return null;
+    if (typeof payload.exp !== "number" || payload.exp < Date.now()) return null;
+    return payload;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,189 @@
+/**
+ * ギルドごとの設定を管理するサービスです。
+ * 設定はJSONファイルに保存され、未設定の項目には既定値が使用されます。
+ */
+
+import fs from "fs";
+import path from "path";
+import { GuildSettings } from "../types/index.js";
+
+/** 音量の上限（%） */
+export const MAX_VOLUME = 200;
+
+/** クロスフェードの長さの上限（秒） */
+export const MAX_CROSSFADE_SECONDS = 12;
+
+/** 設定の既定値 */
+const DEFAULT_SETTINGS: GuildSettings = {
+  audio: {
+    volume: 100,
+    crossfadeSeconds: 0,
+  },
+  shuffle: {
+    historySize: 50,
+    artistHistorySize: 5,
+    ratingWeight: 1,
+    playCountWeight: 0,
+    loveWeight: 1,
+    excludeBrokenTracks: false,
+  },
+  permissions: {
+    allowedRoleIds: [],
+  },
+  voteSkip: {
+    enabled: false,
+    threshold: 0.5,
+  },
+  requests: {
+    maxQueuedItems: 0,
+    maxQueuedDuration: 0,
+  },
+  youtube: {
+    maxPlaylistItems: 50,
+  },
+};
+
+/** 数値の設定の範囲。ここにない数値の設定は範囲を制限しない */
+const SETTING_RANGES: { [key: string]: { min: number; max?: number; integer?: boolean } } = {
+  "audio.volume": { min: 0, max: MAX_VOLUME },
+  "audio.crossfadeSeconds": { min: 0, max: MAX_CROSSFADE_SECONDS },
+  "shuffle.historySize": { min: 0, integer: true },
+  "shuffle.artistHistorySize": { min: 0, integer: true },
+  "voteSkip.threshold": { min: 0, max: 1 },
+  "requests.maxQueuedItems": { min: 0, integer: true },
+  "requests.maxQueuedDuration": { min: 0 },
+  "youtube.maxPlaylistItems": { min: 1, integer: true },
+};
+
+let settingsPath: string | null = null;
+let settingsMap: { [guildId: string]: Partial<GuildSettings> } = {};
+
+/**
+ * 設定ファイルを読み込みます。
+ * @param filePath 設定ファイルのパス
+ */
+export function initGuildSettings(filePath: string): void {
+  settingsPath = filePath;
+  if (!fs.existsSync(filePath)) return;
+
+  try {
+    settingsMap = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+  } catch (err) {
+    console.error("[GuildSettings] Failed to load guild settings:", err);
+    return;
+  }
+
+  // 範囲外の値は既定値に戻す
+  for (const [guildId, settings] of Object.entries(settingsMap)) {
+    for (const key of findInvalidSettings(getGuildSettings(guildId))) {
+      const [group, name] = key.split(".");
+      const groupSettings = (settings as { [group: string]: { [name: string]: unknown } })[group];
+      console.error(
+        `[GuildSettings] Ignored ${key} = ${groupSettings[name]} for guild ${guildId}: ` +
+          describeRange(key)
+      );
+      delete groupSettings[name];
+    }
+  }
+}
+
+/**
+ * ギルドの設定を取得します。
+ * @param guildId ギルドID
+ * @returns 既定値で補完した設定
+ */
+export function getGuildSettings(guildId: string): GuildSettings {
+  return mergeSettings(DEFAULT_SETTINGS, settingsMap[guildId] ?? {}) as GuildSettings;
+}
+
+/**
+ * ギルドの設定を更新して保存します。
+ * 既定値に存在しない項目や、型が既定値と異なる値は無視されます。
+ * @param guildId ギルドID
+ * @param update 更新する項目
+ * @returns 更新後の設定。範囲外の値が含まれる場合は保存せずにエラーメッセージを返す
+ */
+export function updateGuildSettings(guildId: string, update: unknown): GuildSettings | string {
+  const merged = mergeSettings(getGuildSettings(guildId), update) as GuildSettings;
+  const invalid = findInvalidSettings(merged);
+  if (invalid.length > 0) {
+    return invalid.map((key) => `${key}: ${describeRange(key)}`).join(", ");
+  }
+
+  settingsMap[guildId] = merged;
+  saveGuildSettings();
+  return getGuildSettings(guildId);
+}
+
+/**
+ * 範囲外の値が設定されている項目を取得します。
+ * @param settings 設定
+ * @returns 範囲外の項目のキー（"audio.volume" など）の配列
+ */
+function findInvalidSettings(settings: GuildSettings): string[] {
+  return Object.entries(SETTING_RANGES)
+    .filter(([key, range]) => {
+      const [group, name] = key.split(".");
+      const value = (settings as unknown as { [group: string]: { [name: string]: number } })[group][
+        name
+      ];
+      return (
+        value < range.min ||
+        (range.max !== undefined && value > range.max) ||
+        (range.integer && !Number.isInteger(value))
+      );
+    })
+    .map(([key]) => key);
+}
+
+/**
+ * 設定の範囲を説明する文字列を作成します。
+ * @param key 項目のキー
+ * @returns 範囲の説明
+ */
+function describeRange(key: string): string {
+  const { min, max, integer } = SETTING_RANGES[key];
+  const bounds = max !== undefined ? `between ${min} and ${max}` : `at least ${min}`;
+  return `must be ${integer ? "an integer " : ""}${bounds}`;
+}
+
+/**
+ * 基準となる設定に更新内容を再帰的にマージします。
+ * @param base 基準となる設定
+ * @param update 更新内容
+ * @returns マージ後の設定
+ */
+function mergeSettings(base: object, update: unknown): object {
+  const result: { [key: string]: unknown } = { ...base };
+  if (typeof update !== "object" || update === null) return result;
+
+  for (const [key, baseValue] of Object.entries(base)) {
+    const value = (update as { [key: string]: unknown })[key];
+    if (value === undefined) continue;
+
+    if (Array.isArray(baseValue)) {
+      if (Array.isArray(value) && value.every((v) => typeof v === "string")) {
+        result[key] = value;
+      }
+    } else if (typeof baseValue === "object" && baseValue !== null) {
+      result[key] = mergeSettings(baseValue, value);
+    } else if (typeof value === typeof baseValue) {
+      if (typeof value === "number" && !Number.isFinite(value)) continue;
+      result[key] = value;
+    }
+  }
+  return result;
+}
+
+/**
+ * 設定をファイルに保存します。
+ */
+function saveGuildSettings(): void {
+  if (!settingsPath) return;
+  try {
+    fs.mkdirSync(path.dirname(settingsPath), { recursive: true });
+    fs.writeFileSync(settingsPath, JSON.stringify(settingsMap, null, 2), "utf-8");
+  } catch (err) {
+    console.error("[GuildSettings] Failed to save guild settings:", err);
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * ギルド状態の永続化を行うサービスです。
+ * 再生キュー、再生中のトラックとその種類、ボイスチャンネル、一時停止の状態をJSONファイルに保存し、
+ * プロセス再起動後に復元できるようにします。
+ */
+
+import fs from "fs";
+import path from "path";
+import { PersistedGuildState, TrackInfo } from "../types/index.js";
+
+/**
+ * 保存されたギルド状態を読み込みます。
+ * @param filePath 保存先ファイルのパス
+ * 形式が正しくないエントリは読み飛ばします。
+ * @returns 保存されていたギルド状態の配列。ファイルがない、または読み込めない場合は空配列
+ */
+export function loadGuildStates(filePath: string): PersistedGuildState[] {
+  if (!fs.existsSync(filePath)) return [];
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+  } catch (err) {
+    console.error("[GuildStateStore] Failed to load guild states:", err);
+    return [];
+  }
+  if (!Array.isArray(parsed)) {
+    console.error("[GuildStateStore] Invalid guild states: not an array");
+    return [];
+  }
+
+  return parsed.filter((entry): entry is PersistedGuildState => {
+    if (isPersistedGuildState(entry)) return true;
+    console.warn("[GuildStateStore] Skipped invalid guild state:", JSON.stringify(entry));
+    return false;
+  });
+}
+
+/**
+ * 保存されていたギルド状態の形式が正しいか確認します。
+ * @param entry 保存されていた値
+ * @returns 形式が正しい場合は true
+ */
+function isPersistedGuildState(entry: unknown): entry is PersistedGuildState {
+  if (typeof entry !== "object" || entry === null) return false;
+  const st = entry as { [key: string]: unknown };
+  return (
+    typeof st.guildId === "string" &&
+    typeof st.channelId === "string" &&
+    (st.currentTrack === null || isTrackArray(st.currentTrack)) &&
+    isTrackArray(st.requestQueue) &&
+    typeof st.position === "number" &&
+    Number.isFinite(st.position) &&
+    (st.paused === undefined || typeof st.paused === "boolean") &&
+    (st.source === undefined || st.source === "request" || st.source === "autoplay")
+  );
+}
+
+/**
+ * 値がトラック情報の配列か確認します。
+ * @param value 確認する値
+ * @returns トラック情報の配列の場合は true
+ */
+function isTrackArray(value: unknown): value is TrackInfo[] {
+  return (
+    Array.isArray(value) &&
+    value.every((t) => typeof t === "object" && t !== null && typeof t._relativePath === "string")
+  );
+}
+
+/**
+ * ギルド状態をファイルに保存します。
+ * 書き込み途中で終了してもファイルが壊れないよう、一時ファイルに書き込んでから置き換えます。
+ * @param filePath 保存先ファイルのパス
+ * @param states 保存するギルド状態の配列
+ */
+export function saveGuildStates(filePath: string, states: PersistedGuildState[]): void {
+  const tempFile = filePath + ".tmp";
+  try {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(tempFile, JSON.stringify(states, null, 2), "utf-8");
+    fs.renameSync(tempFile, filePath);
+  } catch (err) {
+    console.error("[GuildStateStore] Failed to save guild states:", err);
+  }
+}
@@ -0,0 +1,155 @@
+/**
+ * ギルドごとの再生履歴を管理するサービスです。
+ * 再生したトラック、開始・終了時刻、スキップの有無、
+ * リクエストか自動再生かを一定件数まで記録します。
+ * 履歴はボイスチャンネルからの退出や再起動後も残るよう、JSONファイルに保存されます。
+ */
+
+import fs from "fs";
+import path from "path";
+import { PLAY_HISTORY_SIZE } from "../config/index.js";
+import { GuildState, HistoryItem, PlayHistoryEntry, TrackInfo } from "../types/index.js";
+
+let historyPath: string | null = null;
+const historyMap: { [guildId: string]: PlayHistoryEntry[] } = {};
+
+/**
+ * 履歴ファイルを読み込みます。
+ * @param filePath 履歴ファイルのパス
+ */
+export function initHistory(filePath: string): void {
+  historyPath = filePath;
+  if (!fs.existsSync(filePath)) return;
+
+  try {
+    const parsed = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+    for (const [guildId, entries] of Object.entries(parsed)) {
+      if (!Array.isArray(entries)) continue;
+      historyMap[guildId] = entries.filter(isPlayHistoryEntry).slice(-PLAY_HISTORY_SIZE);
+    }
+  } catch (err) {
+    console.error("[History] Failed to load play history:", err);
+  }
+}
+
+/**
+ * 保存されていた履歴のエントリの形式が正しいか確認します。
+ * @param entry 保存されていた値
+ * @returns 形式が正しい場合は true
+ */
+function isPlayHistoryEntry(entry: unknown): entry is PlayHistoryEntry {
+  if (typeof entry !== "object" || entry === null) return false;
+  const e = entry as { [key: string]: unknown };
+  return (
+    Array.isArray(e.tracks) &&
+    typeof e.startedAt === "number" &&
+    typeof e.skipped === "boolean" &&
+    (e.source === "request" || e.source === "autoplay")
+  );
+}
+
+/**
+ * ギルドの履歴を取得します。
+ * @param guildId ギルドID
+ * @returns 古い順の履歴のエントリの配列
+ */
+function getHistory(guildId: string): PlayHistoryEntry[] {
+  if (!historyMap[guildId]) historyMap[guildId] = [];
+  return historyMap[guildId];
+}
+
+/**
+ * 再生開始したトラックを履歴に追加します。
+ * 直前のエントリが終了していない場合は先に終了させます。
+ * 再起動後に同じ種類で再開できるよう、ギルドの状態にもリクエストか自動再生かを記録します。
+ * @param guildId ギルドID
+ * @param state ギルドの状態
+ * @param tracks 再生を開始したトラックの配列
+ * @param source リクエストか自動再生か
+ */
+export function startHistoryEntry(
+  guildId: string,
+  state: GuildState,
+  tracks: TrackInfo[],
+  source: PlayHistoryEntry["source"]
+): void {
+  finishHistoryEntry(guildId, state, false);
+  state.currentSource = source;
+
+  const history = getHistory(guildId);
+  history.push({
+    tracks,
+    startedAt: Date.now(),
+    skipped: false,
+    source,
+  });
+  if (history.length > PLAY_HISTORY_SIZE) {
+    history.splice(0, history.length - PLAY_HISTORY_SIZE);
+  }
+  saveHistory();
+}
+
+/**
+ * 再生中のエントリを終了させます。
+ * 再生中にスキップが要求されていた場合はスキップとして記録します。
+ * @param guildId ギルドID
+ * @param state ギルドの状態
+ * @param save true の場合はファイルに保存する
+ */
+export function finishHistoryEntry(guildId: string, state: GuildState, save = true): void {
+  const history = getHistory(guildId);
+  const last = history[history.length - 1];
+  if (last && last.endedAt === undefined) {
+    last.endedAt = Date.now();
+    last.skipped = !!state.skipRequested;
+    if (save) saveHistory();
+  }
+  state.skipRequested = false;
+}
+
+/**
+ * 履歴を新しい順の表示用データに変換します。
+ * index は新しいものから 0 始まりで数えます。
+ * @param guildId ギルドID
+ * @returns 表示用の履歴データ
+ */
+export function makeHistoryArray(guildId: string): HistoryItem[] {
+  return [...(historyMap[guildId] ?? [])].reverse().map((entry, index) => ({
+    index,
+    tracks: entry.tracks.map((t) => ({
+      title: (t["Name"] as string) || "",
+      album: (t["アルバム"] as string) || "",
+      albumArtist: (t["アルバムアーティスト"] as string) || (t["アーティスト"] as string) || "",
+      artist: (t["アーティスト"] as string) || "",
+    })),
+    startedAt: entry.startedAt,
+    endedAt: entry.endedAt,
+    skipped: entry.skipped,
+    source: entry.source,
+  }));
+}
+
+/**
+ * 履歴のエントリを取得します。
+ * @param guildId ギルドID
+ * @param index 新しいものから 0 始まりで数えたインデックス
+ * @returns 履歴のエントリ。範囲外の場合は undefined
+ */
+export function getHistoryEntry(guildId: string, index: number): PlayHistoryEntry | undefined {
+  if (!Number.isInteger(index) || index < 0) return undefined;
+  const history = historyMap[guildId] ?? [];
+  return history[history.length - 1 - index];
+}
+
+/**
+ * 履歴をファイルに保存します。
+ */
+function saveHistory(): void {
+  if (!historyPath) return;
+  try {
+    fs.mkdirSync(path.dirname(historyPath), { recursive: true });
+    fs.writeFileSync(historyPath, JSON.stringify(historyMap), "utf-8");
+  } catch (err) {
+    console.error("[History] Failed to save play history:", err);
+  }
+}
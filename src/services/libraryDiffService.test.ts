@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import { LibraryData, Playlist, TrackInfo } from "../types/index.js";
+import { diffLibraryData, isEmptyLibraryDiff } from "./libraryDiffService.js";
+
+/**
+ * テスト用のトラックを作成します。
+ * @param name トラック名。パスにも使う
+ * @param overrides 上書きする項目
+ * @returns トラック情報
+ */
+function createTrack(name: string, overrides: Partial<TrackInfo> = {}): TrackInfo {
+  return { _relativePath: `/music/${name}.flac`, "Track ID": 1, Name: name, ...overrides };
+}
+
+/**
+ * テスト用のライブラリデータを作成します。
+ * @param artistMap アーティスト・アルバムごとのトラック
+ * @param playlists プレイリスト
+ * @returns ライブラリデータ
+ */
+function createLibrary(
+  artistMap: LibraryData["artistMap"],
+  playlists: Playlist[] = []
+): LibraryData {
+  const allTracksCount = Object.values(artistMap)
+    .flatMap((albums) => Object.values(albums))
+    .reduce((count, tracks) => count + tracks.length, 0);
+  return { allTracksCount, artistMap, playlists };
+}
+
+describe("diffLibraryData", () => {
+  it("同じ内容の場合は空の差分を返す", () => {
+    const library = createLibrary({ X: { Y: [createTrack("a"), createTrack("b")] } });
+    const same = createLibrary({ X: { Y: [createTrack("a"), createTrack("b")] } });
+
+    expect(isEmptyLibraryDiff(diffLibraryData(library, same))).toBe(true);
+  });
+
+  it("再生回数など差分に含めない項目の変更は無視する", () => {
+    const previous = createLibrary({ X: { Y: [createTrack("a", { "Play Count": 1 })] } });
+    const next = createLibrary({ X: { Y: [createTrack("a", { "Play Count": 2 })] } });
+
+    expect(isEmptyLibraryDiff(diffLibraryData(previous, next))).toBe(true);
+  });
+
+  it("追加・削除されたトラックとアルバムを求める", () => {
+    const previous = createLibrary({ X: { Y: [createTrack("a")], Old: [createTrack("o")] } });
+    const next = createLibrary({ X: { Y: [createTrack("a")], New: [createTrack("n")] } });
+
+    const diff = diffLibraryData(previous, next);
+
+    expect(diff.addedTracks.map((t) => t.path)).toEqual(["/music/n.flac"]);
+    expect(diff.removedTracks.map((t) => t.path)).toEqual(["/music/o.flac"]);
+    expect(diff.changedTracks).toEqual([]);
+    expect(diff.addedAlbums).toEqual([{ artist: "X", album: "New" }]);
+    expect(diff.removedAlbums).toEqual([{ artist: "X", album: "Old" }]);
+    expect(diff.changedAlbums).toEqual([]);
+    expect(isEmptyLibraryDiff(diff)).toBe(false);
+  });
+
+  it("タグが変わったトラックとそのアルバムを変更として扱う", () => {
+    const previous = createLibrary({ X: { Y: [createTrack("a")] } });
+    const next = createLibrary({ X: { Y: [createTrack("a", { Name: "renamed" })] } });
+
+    const diff = diffLibraryData(previous, next);
+
+    expect(diff.changedTracks).toEqual([
+      {
+        path: "/music/a.flac",
+        trackId: 1,
+        title: "renamed",
+        trackArtist: "",
+        artist: "X",
+        album: "Y",
+      },
+    ]);
+    expect(diff.changedAlbums).toEqual([{ artist: "X", album: "Y" }]);
+  });
+
+  it("曲順が変わったアルバムを変更として扱う", () => {
+    const previous = createLibrary({ X: { Y: [createTrack("a"), createTrack("b")] } });
+    const next = createLibrary({ X: { Y: [createTrack("b"), createTrack("a")] } });
+
+    const diff = diffLibraryData(previous, next);
+
+    expect(diff.changedTracks).toEqual([]);
+    expect(diff.changedAlbums).toEqual([{ artist: "X", album: "Y" }]);
+  });
+
+  it("プレイリストの変更を検出する", () => {
+    const a = createTrack("a");
+    const b = createTrack("b");
+    const previous = createLibrary({ X: { Y: [a, b] } }, [{ id: "1", name: "P", tracks: [a] }]);
+    const renamed = createLibrary({ X: { Y: [a, b] } }, [{ id: "1", name: "Q", tracks: [a] }]);
+    const added = createLibrary({ X: { Y: [a, b] } }, [{ id: "1", name: "P", tracks: [a, b] }]);
+
+    expect(diffLibraryData(previous, renamed).playlistsChanged).toBe(true);
+    expect(diffLibraryData(previous, added).playlistsChanged).toBe(true);
+    expect(isEmptyLibraryDiff(diffLibraryData(previous, renamed))).toBe(false);
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * ライブラリを読み込み直したときの差分を計算するサービスです。
+ * トラックはファイルのパス、アルバムはアーティスト名とアルバム名で対応付け、
+ * 追加・削除・変更されたトラックとアルバムを求めます。
+ */
+
+import { LibraryData, LibraryDiff, LibraryTrackSummary, TrackInfo } from "../types/index.js";
+
+/**
+ * 変更の検出に使うトラック情報の項目。閲覧用の API と検索が返す項目だけを比べ、
+ * 再生回数や最終再生日時など、再生するたびに変わる項目の変更では差分を作らない
+ */
+const SIGNATURE_FIELDS = [
+  "Track ID",
+  "Name",
+  "アーティスト",
+  "アルバム",
+  "アルバムアーティスト",
+  "作曲者",
+];
+
+/** 差分の計算用のトラックのエントリ */
+interface TrackEntry {
+  summary: LibraryTrackSummary;
+  /** 変更の検出に使う、SIGNATURE_FIELDS の値を JSON にした文字列 */
+  signature: string;
+}
+
+/** 差分の計算用のアルバムのエントリ */
+interface AlbumEntry {
+  artist: string;
+  album: string;
+  /** 収録トラックのパスを曲順に並べた文字列 */
+  signature: string;
+}
+
+/**
+ * 2つのライブラリデータの差分を計算します。
+ * @param previous 前回のライブラリデータ
+ * @param next 新しいライブラリデータ
+ * @returns バージョンを除いた差分
+ */
+export function diffLibraryData(
+  previous: LibraryData,
+  next: LibraryData
+): Omit<LibraryDiff, "version" | "previousVersion"> {
+  const prevTracks = indexTracks(previous);
+  const nextTracks = indexTracks(next);
+  const prevAlbums = indexAlbums(previous);
+  const nextAlbums = indexAlbums(next);
+
+  const addedTracks: LibraryTrackSummary[] = [];
+  const changedTracks: LibraryTrackSummary[] = [];
+  for (const [path, entry] of nextTracks) {
+    const prev = prevTracks.get(path);
+    if (!prev) {
+      addedTracks.push(entry.summary);
+    } else if (prev.signature !== entry.signature) {
+      changedTracks.push(entry.summary);
+    }
+  }
+  const removedTracks = [...prevTracks]
+    .filter(([path]) => !nextTracks.has(path))
+    .map(([, entry]) => entry.summary);
+
+  // 収録トラックの情報が変わったアルバムも変更として扱う
+  const changedAlbumKeys = new Set(
+    changedTracks.map((track) => albumKey(track.artist, track.album))
+  );
+  const addedAlbums: LibraryDiff["addedAlbums"] = [];
+  const changedAlbums: LibraryDiff["changedAlbums"] = [];
+  for (const [key, entry] of nextAlbums) {
+    const prev = prevAlbums.get(key);
+    if (!prev) {
+      addedAlbums.push({ artist: entry.artist, album: entry.album });
+    } else if (prev.signature !== entry.signature || changedAlbumKeys.has(key)) {
+      changedAlbums.push({ artist: entry.artist, album: entry.album });
+    }
+  }
+  const removedAlbums = [...prevAlbums]
+    .filter(([key]) => !nextAlbums.has(key))
+    .map(([, entry]) => ({ artist: entry.artist, album: entry.album }));
+
+  return {
+    addedTracks,
+    removedTracks,
+    changedTracks,
+    addedAlbums,
+    removedAlbums,
+    changedAlbums,
+    playlistsChanged: playlistSignature(previous) !== playlistSignature(next),
+  };
+}
+
+/**
+ * 差分に変更が含まれているかを確認します。
+ * @param diff 差分
+ * @returns 変更がない場合は true
+ */
+export function isEmptyLibraryDiff(
+  diff: Omit<LibraryDiff, "version" | "previousVersion">
+): boolean {
+  return (
+    diff.addedTracks.length === 0 &&
+    diff.removedTracks.length === 0 &&
+    diff.changedTracks.length === 0 &&
+    diff.addedAlbums.length === 0 &&
+    diff.removedAlbums.length === 0 &&
+    diff.changedAlbums.length === 0 &&
+    !diff.playlistsChanged
+  );
+}
+
+/**
+ * ライブラリのトラックをパスで引けるようにします。
+ * @param libraryData ライブラリデータ
+ * @returns パスをキーとするトラックのエントリ
+ */
+function indexTracks(libraryData: LibraryData): Map<string, TrackEntry> {
+  const tracks = new Map<string, TrackEntry>();
+  for (const [artist, albums] of Object.entries(libraryData.artistMap)) {
+    for (const [album, albumTracks] of Object.entries(albums)) {
+      for (const track of albumTracks) {
+        tracks.set(track._relativePath, {
+          summary: toSummary(track, artist, album),
+          signature: JSON.stringify(SIGNATURE_FIELDS.map((field) => track[field] ?? null)),
+        });
+      }
+    }
+  }
+  return tracks;
+}
+
+/**
+ * ライブラリのアルバムをアーティスト名とアルバム名で引けるようにします。
+ * @param libraryData ライブラリデータ
+ * @returns アルバムのキーをキーとするアルバムのエントリ
+ */
+function indexAlbums(libraryData: LibraryData): Map<string, AlbumEntry> {
+  const albums = new Map<string, AlbumEntry>();
+  for (const [artist, albumMap] of Object.entries(libraryData.artistMap)) {
+    for (const [album, tracks] of Object.entries(albumMap)) {
+      albums.set(albumKey(artist, album), {
+        artist,
+        album,
+        signature: tracks.map((track) => track._relativePath).join("\n"),
+      });
+    }
+  }
+  return albums;
+}
+
+/**
+ * プレイリストの ID・名前・収録トラックを1つの文字列にします。
+ * @param libraryData ライブラリデータ
+ * @returns 変更の検出に使う文字列
+ */
+function playlistSignature(libraryData: LibraryData): string {
+  return JSON.stringify(
+    libraryData.playlists.map((playlist) => [
+      playlist.id,
+      playlist.name,
+      playlist.tracks.map((track) => track._relativePath),
+    ])
+  );
+}
+
+/**
+ * アルバムを一意に表すキーを作成します。
+ * @param artist アーティスト名
+ * @param album アルバム名
+ * @returns キー
+ */
+function albumKey(artist: string, album: string): string {
+  return `${artist}\u0000${album}`;
+}
+
+/**
+ * 差分に含めるトラックの情報を作成します。
+ * @param track トラック情報
+ * @param artist artistMap のアーティスト名
+ * @param album artistMap のアルバム名
+ * @returns トラックの情報
+ */
+function toSummary(track: TrackInfo, artist: string, album: string): LibraryTrackSummary {
+  return {
+    path: track._relativePath,
+    trackId: typeof track["Track ID"] === "number" ? track["Track ID"] : undefined,
+    title: String(track.Name ?? ""),
+    trackArtist: String(track["アーティスト"] ?? ""),
+    artist,
+    album,
+  };
+}
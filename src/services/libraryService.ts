@@ -1,14 +1,25 @@
 /**
  * 音楽ライブラリの管理を行うサービスです。
- * iTunes Music Library.xml ファイルの監視、パース、
- * およびライブラリデータの提供を行います。
+ * iTunes Music Library.xml ファイルの監視、または音楽フォルダの定期的なスキャンと、
+ * ワーカーでのパース、およびライブラリデータと健全性レポートの提供を行います。
+ * 読み込み直すたびに前回との差分を計算し、変更があればライブラリのバージョンを更新して通知します。
  */
 
 import { Worker } from "worker_threads";
 import fs from "fs";
 import path from "path";
 import { fileURLToPath } from "url";
-import { LibraryData } from "../types/index.js";
+import { LIBRARY_SCAN_INTERVAL_MS } from "../config/index.js";
+import {
+  LibraryData,
+  LibraryDiff,
+  LibraryHealthReport,
+  Playlist,
+  TrackInfo,
+} from "../types/index.js";
+import { diffLibraryData, isEmptyLibraryDiff } from "./libraryDiffService.js";
+import { rebuildSearchIndex } from "./searchService.js";
+import { warmMetadataCache } from "./metadataService.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -16,9 +27,29 @@ const __dirname = path.dirname(__filename);
 let libraryData: LibraryData = {
   allTracksCount: 0,
   artistMap: {},
+  playlists: [],
 };
 
-function parseLibraryInWorker(xmlPath: string): Promise<LibraryData> {
+/** ライブラリの内容が変わるたびに更新するバージョン。再起動しても前回の値と重ならないよう時刻から作る */
+let libraryVersion = Date.now().toString(36);
+
+let libraryHealth: LibraryHealthReport | null = null;
+/** 健全性チェックでファイルがない・読み込めないとされたトラックのパス */
+let brokenTrackPaths = new Set<string>();
+
+/** 読み込みを始めるたびに増やす番号。読み込みが重なったときに古い結果で上書きしないために使う */
+let loadGeneration = 0;
+
+/** ワーカーに渡すライブラリの読み込み方法 */
+type LibrarySource = (
+  | { provider: "itunes"; xmlPath: string; pathMappings: { from: string; to: string }[] }
+  | { provider: "directory"; directory: string; scanCachePath: string }
+) & { healthCachePath: string };
+
+function parseLibraryInWorker(
+  source: LibrarySource,
+  onHealth: (health: LibraryHealthReport) => void
+): Promise<LibraryData> {
   return new Promise((resolve, reject) => {
     const isDevelopment = process.env.NODE_ENV === "development";
 
@@ -36,14 +67,20 @@ function parseLibraryInWorker(xmlPath: string): Promise<LibraryData> {
     }
 
     const worker = new Worker(workerFile, {
-      workerData: { xmlPath },
+      workerData: source,
     });
+    // ライブラリデータを受け取ったら解決し、健全性レポートを受け取るまでワーカーを残す
+    let parsed = false;
     worker.on("message", (msg) => {
-      if (msg.success) {
+      if (msg.success && msg.health) {
         worker.terminate();
+        onHealth(msg.health as LibraryHealthReport);
+      } else if (msg.success) {
+        parsed = true;
         resolve(msg.data as LibraryData);
       } else {
         worker.terminate();
+        if (parsed) console.error("[Library] Health check failed:", msg.error);
         reject(new Error(msg.error));
       }
     });
@@ -55,28 +92,134 @@ function parseLibraryInWorker(xmlPath: string): Promise<LibraryData> {
   });
 }
 
-async function loadLibraryDataAsync(xmlPath: string) {
+async function loadLibraryDataAsync(source: LibrarySource, onUpdate: (diff: LibraryDiff) => void) {
+  const generation = ++loadGeneration;
   console.log("[Library] Parsing in worker...");
   try {
-    const result = await parseLibraryInWorker(xmlPath);
-    libraryData = result;
-    console.log("[Library] Updated library data. allTracksCount =", libraryData.allTracksCount);
+    const data = await parseLibraryInWorker(source, (health) => {
+      // 後から始めた読み込みがある場合、その結果を優先する
+      if (generation !== loadGeneration) return;
+      libraryHealth = health;
+      brokenTrackPaths = new Set(
+        [...health.missing, ...health.undecodable].map((issue) => issue.path)
+      );
+    });
+    if (generation !== loadGeneration) {
+      console.log("[Library] Discarded result of an outdated parse.");
+      return;
+    }
+
+    // 再生回数など差分に含まれない項目もシャッフルで使うため、ライブラリデータは常に置き換える
+    const changes = diffLibraryData(libraryData, data);
+    libraryData = data;
+    rebuildSearchIndex(libraryData);
+    if (isEmptyLibraryDiff(changes)) {
+      console.log("[Library] No changes in library data.");
+      return;
+    }
+
+    void warmMetadataCache(libraryData);
+    const previousVersion = libraryVersion;
+    libraryVersion = Date.now().toString(36);
+    console.log(
+      "[Library] Updated library data. allTracksCount =",
+      libraryData.allTracksCount,
+      "playlists =",
+      libraryData.playlists.length,
+      `(+${changes.addedTracks.length} -${changes.removedTracks.length} ~${changes.changedTracks.length})`
+    );
+    onUpdate({ version: libraryVersion, previousVersion, ...changes });
   } catch (err) {
     console.error("[Library] Parse failed:", err);
   }
 }
 
-export function watchLibraryFile(xmlPath: string) {
-  void loadLibraryDataAsync(xmlPath);
+/**
+ * iTunes Music Library.xml を読み込み、ファイルが更新されるたびに読み込み直します。
+ * @param xmlPath iTunes Music Library.xml のパス
+ * @param pathMappings Location をローカルのパスに変換するルール。to は絶対パスで指定する
+ * @param healthCachePath 健全性チェックの ffprobe の結果のキャッシュファイルのパス
+ * @param onUpdate ライブラリの内容が変わったときに差分を受け取る関数
+ */
+export function watchLibraryFile(
+  xmlPath: string,
+  pathMappings: { from: string; to: string }[],
+  healthCachePath: string,
+  onUpdate: (diff: LibraryDiff) => void
+) {
+  const source: LibrarySource = { provider: "itunes", xmlPath, pathMappings, healthCachePath };
+  void loadLibraryDataAsync(source, onUpdate);
 
   fs.watchFile(xmlPath, { interval: 2000 }, (curr, prev) => {
     if (curr.mtime > prev.mtime) {
       console.log("[Library] Detected update => Worker parse...");
-      void loadLibraryDataAsync(xmlPath);
+      void loadLibraryDataAsync(source, onUpdate);
     }
   });
 }
 
+/**
+ * 音楽フォルダをスキャンしてライブラリを読み込み、一定間隔で再スキャンします。
+ * 再スキャンでは更新日時が変わったファイルのタグだけを読み直します。
+ * @param directory 音楽フォルダのパス
+ * @param scanCachePath スキャン結果のキャッシュファイルのパス
+ * @param healthCachePath 健全性チェックの ffprobe の結果のキャッシュファイルのパス
+ * @param onUpdate ライブラリの内容が変わったときに差分を受け取る関数
+ */
+export function watchLibraryDirectory(
+  directory: string,
+  scanCachePath: string,
+  healthCachePath: string,
+  onUpdate: (diff: LibraryDiff) => void
+) {
+  const source: LibrarySource = {
+    provider: "directory",
+    directory,
+    scanCachePath,
+    healthCachePath,
+  };
+  let scanning: Promise<void> | null = null;
+  const scan = () => {
+    // 前回のスキャンが終わっていない場合は重ねて実行しない
+    if (scanning) return;
+    scanning = loadLibraryDataAsync(source, onUpdate).finally(() => {
+      scanning = null;
+    });
+  };
+
+  scan();
+  setInterval(scan, LIBRARY_SCAN_INTERVAL_MS);
+}
+
 export function getLibraryData(): LibraryData {
   return libraryData;
 }
+
+/**
+ * ライブラリのバージョンを取得します。閲覧用 API の ETag に使います。
+ * @returns ライブラリのバージョン
+ */
+export function getLibraryVersion(): string {
+  return libraryVersion;
+}
+
+/**
+ * 最後にライブラリを読み込んだときの健全性レポートを取得します。
+ * @returns 健全性レポート。まだ読み込みが終わっていない場合は null
+ */
+export function getLibraryHealthReport(): LibraryHealthReport | null {
+  return libraryHealth;
+}
+
+/**
+ * トラックが健全性チェックでファイルがない・読み込めないとされたかを確認します。
+ * @param track トラック情報
+ * @returns 再生できないトラックの場合は true
+ */
+export function isBrokenTrack(track: TrackInfo): boolean {
+  return brokenTrackPaths.has(track._relativePath);
+}
+
+export function getPlaylist(id: string): Playlist | undefined {
+  return libraryData.playlists.find((p) => p.id === id);
+}
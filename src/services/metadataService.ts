@@ -0,0 +1,130 @@
+/**
+ * トラックのメタデータをキャッシュするサービスです。
+ * 再生時間・コーデック・埋め込みカバーの有無をファイルのパスと更新日時をキーに保持し、
+ * キューの更新のたびにファイルを解析し直さないようにします。
+ */
+
+import { parseFile } from "music-metadata";
+import fs from "fs";
+import { LibraryData, TrackInfo } from "../types/index.js";
+import { resolveTrackPath } from "./trackPathService.js";
+
+/** キャッシュするメタデータ */
+export interface TrackMetadata {
+  duration?: number;
+  codec?: string;
+  hasCover: boolean;
+}
+
+interface CacheEntry {
+  mtimeMs: number;
+  metadata: TrackMetadata;
+}
+
+const cache = new Map<string, CacheEntry>();
+const pending = new Map<string, Promise<TrackMetadata | null>>();
+let warmGeneration = 0;
+
+/**
+ * ファイルを解析してメタデータを取得し、キャッシュに保存します。
+ * @param filePath ファイルの絶対パス
+ * @param mtimeMs ファイルの更新日時
+ * @returns メタデータ
+ */
+async function loadMetadata(filePath: string, mtimeMs: number): Promise<TrackMetadata> {
+  const meta = await parseFile(filePath);
+  const metadata: TrackMetadata = {
+    duration: meta.format.duration,
+    codec: meta.format.codec,
+    hasCover: (meta.common.picture?.length ?? 0) > 0,
+  };
+  cache.set(filePath, { mtimeMs, metadata });
+  return metadata;
+}
+
+/**
+ * トラックのメタデータを取得します。
+ * キャッシュがあり、ファイルが更新されていなければキャッシュを返します。
+ * @param track トラック情報
+ * @returns メタデータ。ファイルを読み込めない場合は null
+ */
+export async function getTrackMetadata(track: TrackInfo): Promise<TrackMetadata | null> {
+  // ダウンロード前・ダウンロード中のプレースホルダーにはファイルがない
+  if (!track._relativePath) return null;
+
+  const filePath = resolveTrackPath(track);
+
+  let mtimeMs: number;
+  try {
+    mtimeMs = (await fs.promises.stat(filePath)).mtimeMs;
+  } catch (error) {
+    console.warn(`[Metadata] Could not stat ${track._relativePath}:`, error);
+    return null;
+  }
+
+  const cached = cache.get(filePath);
+  if (cached && cached.mtimeMs === mtimeMs) {
+    return cached.metadata;
+  }
+
+  // 同じファイルへの同時リクエストは1回の解析にまとめる
+  const key = `${filePath}\0${mtimeMs}`;
+  let promise = pending.get(key);
+  if (!promise) {
+    promise = loadMetadata(filePath, mtimeMs)
+      .catch((error) => {
+        console.warn(`[Metadata] Could not parse ${track._relativePath}:`, error);
+        return null;
+      })
+      .finally(() => pending.delete(key));
+    pending.set(key, promise);
+  }
+  return promise;
+}
+
+/**
+ * トラックの再生時間を取得します。
+ * @param track トラック情報
+ * @returns 再生時間（秒）。取得できない場合は undefined
+ */
+export async function getTrackDuration(track: TrackInfo): Promise<number | undefined> {
+  return (await getTrackMetadata(track))?.duration ?? track._duration;
+}
+
+/**
+ * 複数のトラックの合計再生時間を取得します。
+ * @param tracks トラック情報の配列
+ * @returns 合計再生時間（秒）
+ */
+export async function getTotalDuration(tracks: TrackInfo[]): Promise<number> {
+  let totalDuration = 0;
+  for (const track of tracks) {
+    totalDuration += (await getTrackDuration(track)) ?? 0;
+  }
+  return totalDuration;
+}
+
+/**
+ * ライブラリ内の全トラックのメタデータをバックグラウンドで読み込みます。
+ * 読み込み中にライブラリが再読み込みされた場合は、古い読み込みを中断します。
+ * @param libraryData ライブラリデータ
+ */
+export async function warmMetadataCache(libraryData: LibraryData): Promise<void> {
+  const generation = ++warmGeneration;
+  const startedAt = Date.now();
+  let count = 0;
+
+  for (const albumMap of Object.values(libraryData.artistMap)) {
+    for (const tracks of Object.values(albumMap)) {
+      for (const track of tracks) {
+        if (generation !== warmGeneration) return;
+        await getTrackMetadata(track);
+        count++;
+      }
+    }
+  }
+
+  console.log(
+    `[Metadata] Warmed metadata cache. tracks = ${count}, elapsed = ${Date.now() - startedAt}ms`
+  );
+}
@@ -1,35 +1,11 @@
 /**
  * 音楽再生に関するサービスです。
- * ランダムトラックの取得、トラックシーケンスの生成などを行います。
+ * トラックシーケンスの生成などを行います。
  */
 
 import { TrackInfo } from "../types/index.js";
 import { getLibraryData } from "./libraryService.js";
 
-export function getRandomItem(): TrackInfo | null {
-  const libraryData = getLibraryData();
-  if (libraryData.allTracksCount == 0) return null;
-
-  let totalValidTracks = 0;
-  let selectedTrack: TrackInfo | null = null;
-
-  for (const artistName of Object.keys(libraryData.artistMap)) {
-    for (const albumName of Object.keys(libraryData.artistMap[artistName])) {
-      const tracks = libraryData.artistMap[artistName][albumName];
-      for (const track of tracks) {
-        if (track.SkipWhenShuffling !== "1" && track.Love !== "B") {
-          totalValidTracks++;
-          if (Math.random() < 1 / totalValidTracks) {
-            selectedTrack = track;
-          }
-        }
-      }
-    }
-  }
-
-  return selectedTrack;
-}
-
 export function sequenceTracks(track: TrackInfo): TrackInfo[] {
   const libraryData = getLibraryData();
 
@@ -1,9 +1,11 @@
 /**
  * 通知サービス
- * WebSocketを通じたキューアップデート通知を管理します。
+ * WebSocketを通じたキュー・再生履歴・YouTube ダウンロード・ライブラリのアップデート通知を管理します。
  */
 
+import { LibraryDiff } from "../types/index.js";
 import { WebSocketService } from "../websocket/webSocketService.js";
+import { YoutubeJob } from "./youtubeJobService.js";
 
 export class NotificationService {
   private webSocketService: WebSocketService | null = null;
@@ -17,6 +19,24 @@ export class NotificationService {
       await this.webSocketService.notifyQueueUpdate(guildId);
     }
   }
+
+  public notifyHistoryUpdate(guildId: string): void {
+    if (this.webSocketService) {
+      this.webSocketService.notifyHistoryUpdate(guildId);
+    }
+  }
+
+  public notifyYoutubeJobUpdate(guildId: string, job: YoutubeJob): void {
+    if (this.webSocketService) {
+      this.webSocketService.notifyYoutubeJobUpdate(guildId, job);
+    }
+  }
+
+  public notifyLibraryUpdate(diff: LibraryDiff): void {
+    if (this.webSocketService) {
+      this.webSocketService.notifyLibraryUpdate(diff);
+    }
+  }
 }
 
 export const notificationService = new NotificationService();
@@ -0,0 +1,56 @@
+import { describe, expect, it, vi } from "vitest";
+import { GuildState } from "../types/index.js";
+import { seekPlayback } from "./playbackService.js";
+
+/**
+ * テスト用のギルドの状態を作成します。
+ * @param overrides 上書きする項目
+ * @returns ギルドの状態
+ */
+function createState(overrides: Partial<GuildState> = {}): GuildState {
+  return {
+    currentTrack: [{ _relativePath: "/music/a.flac", Name: "A" }],
+    requestQueue: [],
+    worker: { postMessage: vi.fn() },
+    channelId: "channel",
+    listeners: [],
+    skipVotes: new Set(),
+    playbackStartTime: 0,
+    currentTrackDuration: 180,
+    ...overrides,
+  } as unknown as GuildState;
+}
+
+describe("seekPlayback", () => {
+  it("再生中のトラックをシークする", () => {
+    const state = createState({ pausedAt: 1000 });
+
+    expect(seekPlayback(state, 30)).toBe(true);
+    expect(state.worker.postMessage).toHaveBeenCalledWith({ event: "seek", position: 30 });
+    expect(state.pausedAt).toBeUndefined();
+  });
+
+  it("次のトラックへの切り替え中はシークしない", () => {
+    const state = createState({ switchingTrack: true, pausedAt: 1000 });
+
+    expect(seekPlayback(state, 30)).toBe(false);
+    expect(state.worker.postMessage).not.toHaveBeenCalled();
+    expect(state.playbackStartTime).toBe(0);
+    expect(state.pausedAt).toBe(1000);
+  });
+
+  it("範囲外の位置にはシークしない", () => {
+    const state = createState();
+
+    expect(seekPlayback(state, -1)).toBe(false);
+    expect(seekPlayback(state, 180)).toBe(false);
+    expect(seekPlayback(state, NaN)).toBe(false);
+    expect(state.worker.postMessage).not.toHaveBeenCalled();
+  });
+
+  it("再生中のトラックがない場合はシークしない", () => {
+    const state = createState({ currentTrack: null });
+
+    expect(seekPlayback(state, 30)).toBe(false);
+  });
+});
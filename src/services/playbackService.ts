@@ -0,0 +1,95 @@
+/**
+ * 再生制御に関するサービスです。
+ * スキップ・一時停止・再開・シーク・音量の状態管理と、再生位置の計算を行います。
+ */
+
+import { GuildState } from "../types/index.js";
+import { MAX_VOLUME, updateGuildSettings } from "./guildSettingsService.js";
+
+/**
+ * 現在の再生位置（秒）を取得します。
+ * 一時停止中の時間は再生位置に含めません。
+ * @param state ギルドの状態
+ * @returns 再生位置（秒）
+ */
+export function getElapsedSeconds(state: GuildState): number {
+  if (!state.playbackStartTime) return 0;
+  const now = state.pausedAt ?? Date.now();
+  return Math.max(0, (now - state.playbackStartTime) / 1000);
+}
+
+/**
+ * 現在のトラックをスキップします。
+ * @param state ギルドの状態
+ */
+export function skipPlayback(state: GuildState): void {
+  state.skipRequested = true;
+  state.worker.postMessage({ event: "skip" });
+}
+
+/**
+ * 再生を一時停止します。
+ * @param state ギルドの状態
+ * @returns 一時停止した場合は true。再生中でない、または既に一時停止中の場合は false
+ */
+export function pausePlayback(state: GuildState): boolean {
+  if (!state.currentTrack || state.currentTrack.length === 0) return false;
+  if (state.pausedAt !== undefined) return false;
+
+  state.pausedAt = Date.now();
+  state.worker.postMessage({ event: "pause" });
+  return true;
+}
+
+/**
+ * 一時停止中の再生を再開します。
+ * 一時停止していた時間の分だけ再生開始時刻を後ろにずらします。
+ * @param state ギルドの状態
+ * @returns 再開した場合は true。一時停止中でない場合は false
+ */
+export function resumePlayback(state: GuildState): boolean {
+  if (state.pausedAt === undefined) return false;
+
+  if (state.playbackStartTime) {
+    state.playbackStartTime += Date.now() - state.pausedAt;
+  }
+  state.pausedAt = undefined;
+  state.worker.postMessage({ event: "resume" });
+  return true;
+}
+
+/**
+ * 現在のトラックを指定した位置から再生し直します。
+ * 一時停止中にシークした場合は再生を再開します。
+ * 次のトラックへの切り替え中は、どちらのトラックをシークするかが定まらないためシークしません。
+ * @param state ギルドの状態
+ * @param position 再生位置（秒、KeepTracksInSequence のトラック群では先頭からの位置）
+ * @returns シークした場合は true。再生中でない、切り替え中、または位置が範囲外の場合は false
+ */
+export function seekPlayback(state: GuildState, position: number): boolean {
+  if (!state.currentTrack || state.currentTrack.length === 0) return false;
+  if (state.switchingTrack) return false;
+  if (!Number.isFinite(position) || position < 0) return false;
+  if (state.currentTrackDuration && position >= state.currentTrackDuration) return false;
+
+  state.playbackStartTime = Date.now() - position * 1000;
+  state.pausedAt = undefined;
+  state.worker.postMessage({ event: "seek", position });
+  return true;
+}
+
+/**
+ * 再生音量を変更し、ギルドの設定に保存します。
+ * 再生中のトラックにも ffmpeg を再起動せずに反映されます。
+ * @param state ギルドの状態
+ * @param guildId ギルドID
+ * @param volume 音量（%、100 が標準）
+ * @returns 変更した場合は true。音量が範囲外の場合は false
+ */
+export function setPlaybackVolume(state: GuildState, guildId: string, volume: number): boolean {
+  if (!Number.isFinite(volume) || volume < 0 || volume > MAX_VOLUME) return false;
+
+  updateGuildSettings(guildId, { audio: { volume } });
+  state.worker.postMessage({ event: "volume", volume });
+  return true;
+}
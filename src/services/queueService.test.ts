@@ -0,0 +1,161 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { GuildState, TrackInfo } from "../types/index.js";
+import { enqueueTrack, groupQueue } from "./queueService.js";
+
+/** テスト用のトラックの再生時間（秒） */
+const durations = new Map<string, number>();
+
+vi.mock("./metadataService.js", () => ({
+  getTrackDuration: vi.fn(async (track: TrackInfo) => durations.get(track._relativePath)),
+}));
+
+/**
+ * テスト用のトラックを作成します。
+ * @param name トラック名。パスにも使う
+ * @param overrides 上書きする項目
+ * @returns トラック情報
+ */
+function createTrack(name: string, overrides: Partial<TrackInfo> = {}): TrackInfo {
+  return { _relativePath: `/music/${name}.flac`, Name: name, ...overrides };
+}
+
+/**
+ * テスト用のギルドの状態を作成します。
+ * @param requestQueue リクエストキュー
+ * @returns ギルドの状態
+ */
+function createState(requestQueue: TrackInfo[] = []): GuildState {
+  return {
+    currentTrack: null,
+    requestQueue,
+    worker: { postMessage: vi.fn() },
+    channelId: "channel",
+    listeners: [],
+    skipVotes: new Set(),
+  } as unknown as GuildState;
+}
+
+/**
+ * キューのトラック名を並べて返します。
+ * @param state ギルドの状態
+ * @returns トラック名の配列
+ */
+function queueNames(state: GuildState): string[] {
+  return state.requestQueue.map((t) => t.Name as string);
+}
+
+beforeEach(() => {
+  durations.clear();
+});
+
+describe("groupQueue", () => {
+  const sequence = { KeepTracksInSequence: "1", アルバムアーティスト: "X", アルバム: "Y" };
+
+  it("KeepTracksInSequence のグループを1つにまとめる", () => {
+    const queue = [
+      createTrack("a"),
+      createTrack("b1", sequence),
+      createTrack("b2", sequence),
+      createTrack("c"),
+    ];
+
+    expect(groupQueue(queue).map((g) => g.map((t) => t.Name))).toEqual([
+      ["a"],
+      ["b1", "b2"],
+      ["c"],
+    ]);
+  });
+
+  it("同じグループが続けてリクエストされた場合は同じトラックの位置で区切る", () => {
+    const queue = [
+      createTrack("b1", sequence),
+      createTrack("b2", sequence),
+      createTrack("b1", sequence),
+      createTrack("b2", sequence),
+    ];
+
+    expect(groupQueue(queue).map((g) => g.map((t) => t.Name))).toEqual([
+      ["b1", "b2"],
+      ["b1", "b2"],
+    ]);
+  });
+
+  it("アルバムが違う場合は同じ KeepTracksInSequence でもまとめない", () => {
+    const queue = [createTrack("b1", sequence), createTrack("d1", { ...sequence, アルバム: "Z" })];
+
+    expect(groupQueue(queue)).toHaveLength(2);
+  });
+});
+
+describe("enqueueTrack", () => {
+  it("ユーザーごとに順番が回ってくる位置に挿入する", async () => {
+    const state = createState();
+
+    await enqueueTrack(state, createTrack("a1"), { requestedBy: "alice" });
+    await enqueueTrack(state, createTrack("a2"), { requestedBy: "alice" });
+    await enqueueTrack(state, createTrack("a3"), { requestedBy: "alice" });
+    await enqueueTrack(state, createTrack("b1"), { requestedBy: "bob" });
+    await enqueueTrack(state, createTrack("b2"), { requestedBy: "bob" });
+    await enqueueTrack(state, createTrack("c1"), { requestedBy: "carol" });
+
+    expect(queueNames(state)).toEqual(["a1", "b1", "c1", "a2", "b2", "a3"]);
+  });
+
+  it("ライブラリのトラックを書き換えずにリクエストしたユーザーを付ける", async () => {
+    const state = createState();
+    const track = createTrack("a");
+
+    const added = await enqueueTrack(state, track, { requestedBy: "alice" });
+
+    expect(added?.[0]._requestedBy).toBe("alice");
+    expect(added?.[0]).not.toBe(track);
+    expect(track._requestedBy).toBeUndefined();
+  });
+
+  it("リクエスト数の上限に達している場合は追加しない", async () => {
+    const limits = { maxQueuedItems: 2, maxQueuedDuration: 0 };
+    const state = createState();
+
+    expect(await enqueueTrack(state, createTrack("a1"), { requestedBy: "alice", limits })).not.toBe(
+      null
+    );
+    expect(await enqueueTrack(state, createTrack("a2"), { requestedBy: "alice", limits })).not.toBe(
+      null
+    );
+    expect(await enqueueTrack(state, createTrack("a3"), { requestedBy: "alice", limits })).toBe(
+      null
+    );
+    // 他のユーザーのリクエストは数えない
+    expect(await enqueueTrack(state, createTrack("b1"), { requestedBy: "bob", limits })).not.toBe(
+      null
+    );
+    expect(queueNames(state)).toEqual(["a1", "b1", "a2"]);
+  });
+
+  it("合計再生時間の上限を超える場合は追加しない", async () => {
+    const limits = { maxQueuedItems: 0, maxQueuedDuration: 600 };
+    durations.set("/music/a1.flac", 300);
+    durations.set("/music/a2.flac", 200);
+    durations.set("/music/a3.flac", 200);
+    const state = createState();
+
+    await enqueueTrack(state, createTrack("a1"), { requestedBy: "alice", limits });
+    await enqueueTrack(state, createTrack("a2"), { requestedBy: "alice", limits });
+
+    expect(await enqueueTrack(state, createTrack("a3"), { requestedBy: "alice", limits })).toBe(
+      null
+    );
+    expect(queueNames(state)).toEqual(["a1", "a2"]);
+  });
+
+  it("上限が 0 の項目は制限しない", async () => {
+    const limits = { maxQueuedItems: 0, maxQueuedDuration: 0 };
+    const state = createState();
+
+    for (let i = 0; i < 5; i++) {
+      await enqueueTrack(state, createTrack(`a${i}`), { requestedBy: "alice", limits });
+    }
+
+    expect(state.requestQueue).toHaveLength(5);
+  });
+});
@@ -0,0 +1,339 @@
+/**
+ * 再生キューの編集を行うサービスです。
+ * KeepTracksInSequence でまとめられたトラック群を1つの単位として扱い、
+ * キューへの追加、キューアイテムの削除、移動、クリア、シャッフルと、
+ * API・WebSocket 向けのキューデータの生成を行います。
+ * リクエストはユーザーごとに順番に再生されるよう、ラウンドロビンの位置に挿入します。
+ */
+
+import { GuildState, QueueItem, RequestLimitSettings, TrackInfo } from "../types/index.js";
+import { getTrackDuration } from "./metadataService.js";
+import { sequenceTracks } from "./musicService.js";
+
+/** キューへの追加時のオプション */
+export interface EnqueueOptions {
+  /** リクエストした Discord ユーザーID */
+  requestedBy?: string;
+  /** ユーザーごとのリクエスト上限。指定しない場合は制限しない */
+  limits?: RequestLimitSettings;
+}
+
+/**
+ * トラックをリクエストキューに追加します。
+ * KeepTracksInSequence が設定されている場合は、同じグループのトラックをまとめて追加します。
+ * ライブラリのトラック情報を書き換えないよう、リクエストしたユーザーを付けた複製を追加します。
+ * @param state ギルドの状態
+ * @param track 追加するトラック
+ * @param options 追加時のオプション
+ * @returns 追加したトラックの配列。リクエスト上限を超える場合は null
+ */
+export async function enqueueTrack(
+  state: GuildState,
+  track: TrackInfo,
+  options: EnqueueOptions = {}
+): Promise<TrackInfo[] | null> {
+  const { requestedBy, limits } = options;
+  const tracks = sequenceTracks(track).map((t) => ({ ...t, _requestedBy: requestedBy }));
+  if (requestedBy && limits) {
+    // 再生時間の取得中に他のリクエストが追加されても上限を超えないよう、
+    // 再生時間を先に取得し、上限の判定から挿入までは待機せずに行う
+    const durations =
+      limits.maxQueuedDuration > 0
+        ? await loadDurations(state, requestedBy, tracks)
+        : new Map<TrackInfo, number>();
+    if (!isWithinRequestLimit(state, requestedBy, tracks, limits, durations)) return null;
+  }
+
+  insertFairly(state, tracks);
+  return tracks;
+}
+
+/**
+ * 複数のトラックを順にリクエストキューに追加します。
+ * KeepTracksInSequence のグループは1つにまとめて追加し、同じグループのトラックが
+ * 複数含まれていても重複して追加しません。リクエスト上限に達した時点で追加を終了します。
+ * @param state ギルドの状態
+ * @param tracks 追加するトラックの配列
+ * @param options 追加時のオプション。shuffle が true の場合は順番をシャッフルしてから追加する
+ * @returns 追加したトラック数
+ */
+export async function enqueueTracks(
+  state: GuildState,
+  tracks: TrackInfo[],
+  options: EnqueueOptions & { shuffle?: boolean } = {}
+): Promise<number> {
+  const ordered = [...tracks];
+  if (options.shuffle) {
+    for (let i = ordered.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [ordered[i], ordered[j]] = [ordered[j], ordered[i]];
+    }
+  }
+
+  const addedSequences = new Set<string>();
+  let count = 0;
+  for (const track of ordered) {
+    if (track.KeepTracksInSequence && addedSequences.has(track._relativePath)) continue;
+    const added = await enqueueTrack(state, track, options);
+    if (!added) break;
+    if (added.length > 1) {
+      added.forEach((t) => addedSequences.add(t._relativePath));
+    }
+    count += added.length;
+  }
+  return count;
+}
+
+/**
+ * 2つのトラックが同じ KeepTracksInSequence グループに属するかを判定します。
+ * @param a 比較するトラック
+ * @param b 比較するトラック
+ * @returns 同じグループに属する場合は true
+ */
+function isSameSequence(a: TrackInfo, b: TrackInfo): boolean {
+  if (!a.KeepTracksInSequence || a.KeepTracksInSequence !== b.KeepTracksInSequence) {
+    return false;
+  }
+  return (
+    (a["アルバムアーティスト"] || a["アーティスト"]) ===
+      (b["アルバムアーティスト"] || b["アーティスト"]) && a["アルバム"] === b["アルバム"]
+  );
+}
+
+/**
+ * リクエストキューを再生単位のグループに分割します。
+ * 同じグループが連続してリクエストされている場合は、同じトラックが再び現れた位置で区切ります。
+ * @param queue リクエストキュー
+ * @returns 再生単位ごとのトラック配列
+ */
+export function groupQueue(queue: TrackInfo[]): TrackInfo[][] {
+  const groups: TrackInfo[][] = [];
+
+  for (const track of queue) {
+    const last = groups[groups.length - 1];
+    if (
+      last &&
+      isSameSequence(last[0], track) &&
+      !last.some((t) => t._relativePath === track._relativePath)
+    ) {
+      last.push(track);
+    } else {
+      groups.push([track]);
+    }
+  }
+
+  return groups;
+}
+
+/**
+ * トラック群をリクエストしたユーザーの順番が回ってくる位置に挿入します。
+ * 各ユーザーの n 番目のリクエストを n 巡目とし、同じ巡目のリクエストの後ろに挿入します。
+ * @param state ギルドの状態
+ * @param tracks 挿入するトラック群
+ */
+function insertFairly(state: GuildState, tracks: TrackInfo[]): void {
+  const requester = tracks[0]?._requestedBy ?? "";
+  const groups = groupQueue(state.requestQueue);
+  const round = groups.filter((g) => (g[0]._requestedBy ?? "") === requester).length;
+
+  const rounds = new Map<string, number>();
+  let insertAt = groups.length;
+  for (let i = 0; i < groups.length; i++) {
+    const user = groups[i][0]._requestedBy ?? "";
+    const groupRound = rounds.get(user) ?? 0;
+    rounds.set(user, groupRound + 1);
+    if (groupRound > round) {
+      insertAt = i;
+      break;
+    }
+  }
+
+  groups.splice(insertAt, 0, tracks);
+  state.requestQueue = groups.flat();
+}
+
+/**
+ * リクエスト上限の判定に使う再生時間を取得します。
+ * 取得中にユーザーのリクエストがキューに追加された場合は、そのトラックの再生時間も取得します。
+ * @param state ギルドの状態
+ * @param requestedBy リクエストした Discord ユーザーID
+ * @param tracks 追加するトラック群
+ * @returns トラックをキーとする再生時間（秒）
+ */
+async function loadDurations(
+  state: GuildState,
+  requestedBy: string,
+  tracks: TrackInfo[]
+): Promise<Map<TrackInfo, number>> {
+  const durations = new Map<TrackInfo, number>();
+  for (;;) {
+    const missing = [
+      ...state.requestQueue.filter((t) => t._requestedBy === requestedBy),
+      ...tracks,
+    ].filter((t) => !durations.has(t));
+    if (missing.length === 0) return durations;
+
+    for (const track of missing) {
+      durations.set(track, (await getTrackDuration(track)) ?? 0);
+    }
+  }
+}
+
+/**
+ * ユーザーのリクエストを追加してもリクエスト上限を超えないか判定します。
+ * KeepTracksInSequence のグループは1件として数えます。
+ * @param state ギルドの状態
+ * @param requestedBy リクエストした Discord ユーザーID
+ * @param tracks 追加するトラック群
+ * @param limits ユーザーごとのリクエスト上限
+ * @param durations loadDurations で取得した再生時間
+ * @returns 上限を超えない場合は true
+ */
+function isWithinRequestLimit(
+  state: GuildState,
+  requestedBy: string,
+  tracks: TrackInfo[],
+  limits: RequestLimitSettings,
+  durations: Map<TrackInfo, number>
+): boolean {
+  const userGroups = groupQueue(state.requestQueue).filter(
+    (g) => g[0]._requestedBy === requestedBy
+  );
+  if (limits.maxQueuedItems > 0 && userGroups.length >= limits.maxQueuedItems) {
+    return false;
+  }
+
+  if (limits.maxQueuedDuration > 0) {
+    const total = [...userGroups.flat(), ...tracks].reduce(
+      (sum, t) => sum + (durations.get(t) ?? 0),
+      0
+    );
+    if (total > limits.maxQueuedDuration) return false;
+  }
+  return true;
+}
+
+/**
+ * 次に再生するグループをリクエストキューから取り出します。
+ * ダウンロード前・ダウンロード中のプレースホルダーは飛ばし、完了するまでキューに残します。
+ * @param state ギルドの状態
+ * @returns 取り出したトラックの配列。再生できるグループがない場合は null
+ */
+export function takeNextQueueGroup(state: GuildState): TrackInfo[] | null {
+  const groups = groupQueue(state.requestQueue);
+  const index = groups.findIndex((g) => !g[0]._downloadUrl);
+  if (index < 0) return null;
+
+  const [next] = groups.splice(index, 1);
+  state.requestQueue = groups.flat();
+  return next;
+}
+
+/**
+ * QueueItem のインデックスからリクエストキュー内のグループ番号を求めます。
+ * QueueItem のインデックスは再生中のトラックを含めて数えられています。
+ * @param state ギルドの状態
+ * @param index QueueItem のインデックス
+ * @returns グループ番号。再生中のトラックや範囲外の場合は -1
+ */
+export function findGroupIndex(state: GuildState, index: number): number {
+  let queueIndex = index - (state.currentTrack?.length ?? 0);
+  if (!Number.isInteger(queueIndex) || queueIndex < 0) return -1;
+
+  const groups = groupQueue(state.requestQueue);
+  for (let i = 0; i < groups.length; i++) {
+    if (queueIndex < groups[i].length) return i;
+    queueIndex -= groups[i].length;
+  }
+  return -1;
+}
+
+/**
+ * キューから指定したアイテムを含むグループを削除します。
+ * @param state ギルドの状態
+ * @param index QueueItem のインデックス
+ * @returns 削除したトラックの配列。該当しない場合は null
+ */
+export function removeQueueItem(state: GuildState, index: number): TrackInfo[] | null {
+  const groupIndex = findGroupIndex(state, index);
+  if (groupIndex < 0) return null;
+
+  const groups = groupQueue(state.requestQueue);
+  const [removed] = groups.splice(groupIndex, 1);
+  state.requestQueue = groups.flat();
+  return removed;
+}
+
+/**
+ * キュー内の指定したアイテムを含むグループを別の位置へ移動します。
+ * 移動先には QueueItem のインデックスを指定し、そのアイテムを含むグループの位置へ挿入されます。
+ * @param state ギルドの状態
+ * @param from 移動元の QueueItem のインデックス
+ * @param to 移動先の QueueItem のインデックス
+ * @returns 移動できた場合は true
+ */
+export function moveQueueItem(state: GuildState, from: number, to: number): boolean {
+  const fromGroup = findGroupIndex(state, from);
+  const toGroup = findGroupIndex(state, to);
+  if (fromGroup < 0 || toGroup < 0) return false;
+
+  const groups = groupQueue(state.requestQueue);
+  const [moved] = groups.splice(fromGroup, 1);
+  groups.splice(toGroup, 0, moved);
+  state.requestQueue = groups.flat();
+  return true;
+}
+
+/**
+ * リクエストキューを空にします。
+ * @param state ギルドの状態
+ * @returns 削除したトラック数
+ */
+export function clearQueue(state: GuildState): number {
+  const count = state.requestQueue.length;
+  state.requestQueue = [];
+  return count;
+}
+
+/**
+ * リクエストキューをグループ単位でシャッフルします。
+ * @param state ギルドの状態
+ */
+export function shuffleQueue(state: GuildState): void {
+  const groups = groupQueue(state.requestQueue);
+  for (let i = groups.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [groups[i], groups[j]] = [groups[j], groups[i]];
+  }
+  state.requestQueue = groups.flat();
+}
+
+/**
+ * 再生中のトラックとリクエストキューを QueueItem の配列に変換します。
+ * @param state ギルドの状態
+ * @returns QueueItem の配列
+ */
+export async function makeQueueArray(state: GuildState | undefined | null): Promise<QueueItem[]> {
+  if (!state) return [];
+
+  const entries = [
+    ...(state.currentTrack ?? []).map((t) => ({ track: t, isCurrent: true })),
+    ...state.requestQueue.map((t) => ({ track: t, isCurrent: false })),
+  ];
+
+  return Promise.all(
+    entries.map(async ({ track: t, isCurrent }, index) => ({
+      index,
+      title: (t["Name"] as string) || "",
+      album: (t["アルバム"] as string) || "",
+      albumArtist: (t["アルバムアーティスト"] as string) || (t["アーティスト"] as string) || "",
+      artist: (t["アーティスト"] as string) || "",
+      isCurrent,
+      duration: await getTrackDuration(t),
+      requestedBy: t._requestedBy,
+      download: t._downloadUrl
+        ? { jobId: t._pendingJobId, progress: t._downloadProgress ?? 0 }
+        : undefined,
+    }))
+  );
+}
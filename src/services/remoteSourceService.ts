@@ -0,0 +1,471 @@
+/**
+ * YouTube などのリモートの音声を TrackInfo に変換するサービスです。
+ * URL からソースを選んで音声を FLAC 形式でダウンロードし、ReplayGain のタグを付けて、
+ * ソースごとのメタデータを TrackInfo の項目に対応付けます。
+ * ダウンロードしたファイルは URL ごとにキャッシュし、同じ URL は再ダウンロードしません。
+ */
+
+import { spawn } from "child_process";
+import crypto from "crypto";
+import dns from "dns";
+import fs from "fs";
+import http from "http";
+import https from "https";
+import net from "net";
+import path from "path";
+import { pipeline } from "stream/promises";
+import { TrackInfo } from "../types/index.js";
+import { applyReplayGain } from "./replayGainService.js";
+import { downloadWithYtDlp, getYtDlpInfo, YtDlpInfo } from "./ytDlpService.js";
+import { getCacheEntry, recordCacheEntry, YOUTUBE_DOWNLOAD_DIR } from "./youtubeCacheService.js";
+
+/** ダウンロードの進捗を受け取る関数 */
+export type RemoteProgressCallback = (
+  status: "downloading" | "processing",
+  progress: number
+) => void;
+
+/** リモートの音声のメタデータ。TrackInfo の項目に対応付けたもの */
+export type RemoteTrackTags = Omit<TrackInfo, "_relativePath">;
+
+/** リモートの音声のソース */
+export interface RemoteSource {
+  /** ソースの名前 */
+  name: string;
+  /** メタデータがない場合やダウンロード中に表示するアルバム名 */
+  label: string;
+  /** URL がこのソースで扱えるかを判定します */
+  matches(url: URL): boolean;
+  /** 音声を FLAC 形式でダウンロードします */
+  download(url: string, outputFile: string, onProgress?: (progress: number) => void): Promise<void>;
+  /** メタデータを取得し、TrackInfo の項目に対応付けます */
+  getTags(url: string, filePath: string): Promise<RemoteTrackTags>;
+}
+
+/**
+ * URL のホスト名が指定したドメインか、そのサブドメインかを判定します。
+ * @param url URL
+ * @param domains ドメインの配列
+ * @returns いずれかのドメインに一致する場合は true
+ */
+function isHostOf(url: URL, domains: string[]): boolean {
+  return domains.some((d) => url.hostname === d || url.hostname.endsWith(`.${d}`));
+}
+
+/**
+ * yt-dlp でダウンロードするソースを作成します。
+ * @param name ソースの名前
+ * @param label メタデータがない場合やダウンロード中に表示するアルバム名
+ * @param matches URL がこのソースで扱えるかを判定する関数
+ * @param mapTags yt-dlp のメタデータを TrackInfo の項目に対応付ける関数
+ * @returns ソース
+ */
+function createYtDlpSource(
+  name: string,
+  label: string,
+  matches: (url: URL) => boolean,
+  mapTags: (info: YtDlpInfo) => RemoteTrackTags
+): RemoteSource {
+  return {
+    name,
+    label,
+    matches,
+    download: downloadWithYtDlp,
+    getTags: async (url) => mapTags(await getYtDlpInfo(url, ["--no-playlist"])),
+  };
+}
+
+const youtubeSource = createYtDlpSource(
+  "youtube",
+  "Youtube",
+  (url) => isHostOf(url, ["youtube.com", "youtu.be"]),
+  (info) => ({
+    Name: info.title || "YouTube Video",
+    アルバム: "Youtube",
+    アルバムアーティスト: "Youtube",
+    アーティスト: info.channel || info.uploader || "YouTube",
+  })
+);
+
+const soundCloudSource = createYtDlpSource(
+  "soundcloud",
+  "SoundCloud",
+  // プレイリスト（/sets/）は1つのファイルにダウンロードできないため扱わない
+  (url) => isHostOf(url, ["soundcloud.com"]) && !url.pathname.includes("/sets/"),
+  (info) => ({
+    Name: info.title || "SoundCloud Track",
+    アルバム: "SoundCloud",
+    アルバムアーティスト: "SoundCloud",
+    アーティスト: info.artist || info.uploader || "SoundCloud",
+  })
+);
+
+const niconicoSource = createYtDlpSource(
+  "niconico",
+  "ニコニコ動画",
+  (url) => isHostOf(url, ["nicovideo.jp", "nico.ms"]),
+  (info) => ({
+    Name: info.title || "ニコニコ動画",
+    アルバム: "ニコニコ動画",
+    アルバムアーティスト: "ニコニコ動画",
+    アーティスト: info.uploader || info.channel || "ニコニコ動画",
+  })
+);
+
+const bandcampSource = createYtDlpSource(
+  "bandcamp",
+  "Bandcamp",
+  // アルバムのページは1つのファイルにダウンロードできないため、トラックのページのみ扱う
+  (url) => isHostOf(url, ["bandcamp.com"]) && url.pathname.startsWith("/track/"),
+  (info) => ({
+    Name: info.track || info.title || "Bandcamp Track",
+    アルバム: info.album || "Bandcamp",
+    アルバムアーティスト: info.album_artist || info.artist || info.uploader || "Bandcamp",
+    アーティスト: info.artist || info.uploader || "Bandcamp",
+    "Track Number": info.track_number,
+  })
+);
+
+/** 直接ダウンロードできる音声ファイルの拡張子 */
+const AUDIO_FILE_EXTENSIONS = [".mp3", ".flac", ".wav", ".ogg", ".opus", ".m4a", ".aac"];
+
+/** 直接ダウンロードを許可しない、ループバック・プライベート・リンクローカルなどのアドレス */
+const blockedAddresses = new net.BlockList();
+blockedAddresses.addSubnet("0.0.0.0", 8, "ipv4");
+blockedAddresses.addSubnet("10.0.0.0", 8, "ipv4");
+blockedAddresses.addSubnet("100.64.0.0", 10, "ipv4");
+blockedAddresses.addSubnet("127.0.0.0", 8, "ipv4");
+blockedAddresses.addSubnet("169.254.0.0", 16, "ipv4");
+blockedAddresses.addSubnet("172.16.0.0", 12, "ipv4");
+blockedAddresses.addSubnet("192.168.0.0", 16, "ipv4");
+blockedAddresses.addAddress("::", "ipv6");
+blockedAddresses.addAddress("::1", "ipv6");
+blockedAddresses.addSubnet("fc00::", 7, "ipv6");
+blockedAddresses.addSubnet("fe80::", 10, "ipv6");
+
+/** 直接ダウンロードでたどるリダイレクトの最大回数 */
+const MAX_REDIRECTS = 5;
+
+/** 直接ダウンロードで応答を待つ時間（ミリ秒） */
+const DIRECT_DOWNLOAD_TIMEOUT_MS = 30 * 1000;
+
+/**
+ * ffmpeg で読み込む形式。ダウンロードしたファイルが HLS や concat のプレイリストだった場合に、
+ * その中の URL やファイルを読みに行かないよう、音声ファイルの形式だけを許可する
+ */
+const AUDIO_DEMUXERS = "mp3,flac,wav,ogg,aac,mov,mp4,m4a";
+
+/**
+ * ホスト名を名前解決し、内部ネットワークのアドレスでないことを確認します。
+ * ボットが動いているマシンやローカルネットワーク上のサービスへのリクエストを防ぐために使います。
+ * @param hostname ホスト名
+ * @returns 接続に使うアドレス
+ * @throws 名前解決できない場合や、内部ネットワークのアドレスに解決された場合
+ */
+async function resolvePublicAddress(hostname: string): Promise<dns.LookupAddress> {
+  const addresses = await dns.promises.lookup(hostname, { all: true });
+  const blocked = addresses.find(({ address, family }) =>
+    blockedAddresses.check(address, family === 6 ? "ipv6" : "ipv4")
+  );
+  if (blocked) {
+    throw new Error(`Refusing to download from internal address: ${hostname} (${blocked.address})`);
+  }
+  if (addresses.length === 0) {
+    throw new Error(`Could not resolve ${hostname}`);
+  }
+  return addresses[0];
+}
+
+/**
+ * 確認したアドレスに接続して GET リクエストを送ります。
+ * 接続時に名前解決をやり直さないため、確認後に DNS の応答が変わっても別のアドレスには接続しません。
+ * @param url リクエストする URL
+ * @param address 接続するアドレス
+ * @returns レスポンス
+ */
+function getFromAddress(url: URL, address: dns.LookupAddress): Promise<http.IncomingMessage> {
+  return new Promise((resolve, reject) => {
+    const client = url.protocol === "https:" ? https : http;
+    const req = client.get(
+      url,
+      {
+        lookup: (_hostname, options, callback) => {
+          if (options.all) {
+            callback(null, [address]);
+          } else {
+            callback(null, address.address, address.family);
+          }
+        },
+      },
+      resolve
+    );
+    req.setTimeout(DIRECT_DOWNLOAD_TIMEOUT_MS, () => {
+      req.destroy(new Error("Request timed out"));
+    });
+    req.on("error", reject);
+  });
+}
+
+/**
+ * URL のファイルをダウンロードします。
+ * リダイレクトは自動ではたどらず、リダイレクト先のホストも内部ネットワークでないことを確認してからたどります。
+ * @param url ファイルの URL
+ * @param filePath 保存先のファイルパス
+ * @param onProgress ダウンロードの進捗（%）を受け取る関数
+ */
+async function downloadToFile(
+  url: string,
+  filePath: string,
+  onProgress?: (progress: number) => void
+): Promise<void> {
+  let current = new URL(url);
+  for (let redirects = 0; ; redirects++) {
+    if (current.protocol !== "http:" && current.protocol !== "https:") {
+      throw new Error(`Unsupported protocol: ${current.protocol}`);
+    }
+
+    // IPv6 アドレスのホスト名は [] で囲まれている
+    const address = await resolvePublicAddress(current.hostname.replace(/^\[(.*)\]$/, "$1"));
+    const res = await getFromAddress(current, address);
+    const status = res.statusCode ?? 0;
+    if (status >= 300 && status < 400 && res.headers.location) {
+      res.resume();
+      if (redirects >= MAX_REDIRECTS) throw new Error("Too many redirects");
+      current = new URL(res.headers.location, current);
+      continue;
+    }
+    if (status !== 200) {
+      res.resume();
+      throw new Error(`Download failed with HTTP ${status}`);
+    }
+
+    const total = Number(res.headers["content-length"]);
+    let received = 0;
+    res.on("data", (chunk: Buffer) => {
+      received += chunk.length;
+      if (total > 0) onProgress?.(Math.min((received / total) * 100, 100));
+    });
+    await pipeline(res, fs.createWriteStream(filePath));
+    return;
+  }
+}
+
+/**
+ * 音声ファイルをダウンロードし、ffmpeg で FLAC 形式に変換します。
+ * ffmpeg にはダウンロードしたファイルだけを渡し、ffmpeg からはネットワークに接続させません。
+ * @param url 音声ファイルの URL
+ * @param outputFile 保存先のファイルパス
+ * @param onProgress ダウンロードの進捗（%）を受け取る関数
+ */
+async function downloadDirectAudio(
+  url: string,
+  outputFile: string,
+  onProgress?: (progress: number) => void
+): Promise<void> {
+  const downloadFile = outputFile + ".download";
+  console.log(`[RemoteSource] Downloading: ${url} to ${outputFile}`);
+  try {
+    await downloadToFile(url, downloadFile, onProgress);
+    await convertToFlac(downloadFile, outputFile);
+  } finally {
+    await fs.promises.rm(downloadFile, { force: true });
+  }
+}
+
+const directAudioSource: RemoteSource = {
+  name: "direct",
+  label: "Web",
+  matches: (url) =>
+    (url.protocol === "http:" || url.protocol === "https:") &&
+    AUDIO_FILE_EXTENSIONS.includes(path.extname(url.pathname).toLowerCase()),
+  download: downloadDirectAudio,
+  getTags: async (url, filePath) => {
+    const tags = await getFormatTags(filePath);
+    const { hostname, pathname } = new URL(url);
+    const trackNumber = parseInt(tags.track ?? "", 10);
+    return {
+      Name: tags.title || decodeURIComponent(path.basename(pathname, path.extname(pathname))),
+      アルバム: tags.album || hostname,
+      アルバムアーティスト: tags.album_artist || tags.artist || hostname,
+      アーティスト: tags.artist || hostname,
+      作曲者: tags.composer,
+      "Track Number": Number.isFinite(trackNumber) ? trackNumber : undefined,
+    };
+  },
+};
+
+/** ソースの一覧。先頭から順に URL を判定する */
+const remoteSources: RemoteSource[] = [
+  youtubeSource,
+  soundCloudSource,
+  niconicoSource,
+  bandcampSource,
+  directAudioSource,
+];
+
+/**
+ * URL を扱えるソースを取得します。
+ * @param url 音声の URL
+ * @returns ソース。対応していない URL の場合は undefined
+ */
+export function findRemoteSource(url: string): RemoteSource | undefined {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return undefined;
+  }
+  return remoteSources.find((source) => source.matches(parsed));
+}
+
+/**
+ * ffmpeg で音声ファイルを FLAC 形式に変換します。
+ * @param inputFile 変換する音声ファイルのパス
+ * @param outputFile 保存先のファイルパス
+ */
+async function convertToFlac(inputFile: string, outputFile: string): Promise<void> {
+  const tempFile = outputFile + ".temp.flac";
+
+  return new Promise<void>((resolve, reject) => {
+    const ffmpeg = spawn(
+      "ffmpeg",
+      [
+        "-protocol_whitelist",
+        "file",
+        "-format_whitelist",
+        AUDIO_DEMUXERS,
+        "-i",
+        inputFile,
+        "-vn",
+        "-map_metadata",
+        "0",
+        "-c:a",
+        "flac",
+        "-y",
+        tempFile,
+      ],
+      {
+        stdio: ["ignore", "ignore", "ignore"],
+      }
+    );
+
+    ffmpeg.on("close", (code: number) => {
+      if (code === 0) {
+        try {
+          fs.renameSync(tempFile, outputFile);
+          resolve();
+        } catch (err) {
+          reject(new Error(`Failed to move converted file: ${err}`));
+        }
+      } else {
+        // 失敗した場合は一時ファイルを削除
+        if (fs.existsSync(tempFile)) {
+          fs.unlinkSync(tempFile);
+        }
+        reject(new Error(`ffmpeg exited with code ${code}`));
+      }
+    });
+
+    ffmpeg.on("error", (err) => {
+      if (fs.existsSync(tempFile)) {
+        fs.unlinkSync(tempFile);
+      }
+      reject(err);
+    });
+  });
+}
+
+/**
+ * ffprobe で音声ファイルのタグを取得します。
+ * @param filePath 音声ファイルのパス
+ * @returns 小文字のタグ名をキーとするタグ。取得できない場合は空のオブジェクト
+ */
+async function getFormatTags(filePath: string): Promise<{ [key: string]: string | undefined }> {
+  return new Promise((resolve) => {
+    const ffprobe = spawn(
+      "ffprobe",
+      ["-v", "quiet", "-show_format", "-print_format", "json", filePath],
+      {
+        stdio: ["ignore", "pipe", "ignore"],
+      }
+    );
+
+    let output = "";
+    ffprobe.stdout.on("data", (data) => {
+      output += data.toString();
+    });
+
+    ffprobe.on("close", () => {
+      try {
+        const tags: { [key: string]: string } = JSON.parse(output).format?.tags ?? {};
+        resolve(Object.fromEntries(Object.entries(tags).map(([k, v]) => [k.toLowerCase(), v])));
+      } catch {
+        resolve({});
+      }
+    });
+    ffprobe.on("error", () => resolve({}));
+  });
+}
+
+/**
+ * リモートの音声の URL を TrackInfo に変換します。
+ * ダウンロード済みでなければソースに応じてダウンロードし、ReplayGain のタグを付けます。
+ * @param url 音声の URL
+ * @param onProgress ダウンロードの進捗（%）を受け取る関数
+ * @returns TrackInfo。対応していない URL の場合やダウンロードに失敗した場合は null
+ */
+export async function remoteUrlToTrackInfo(
+  url: string,
+  onProgress?: RemoteProgressCallback
+): Promise<TrackInfo | null> {
+  const source = findRemoteSource(url);
+  if (!source) {
+    console.error(`[RemoteSource] Unsupported URL: ${url}`);
+    return null;
+  }
+
+  // 保存先ディレクトリ
+  const outputDir = YOUTUBE_DOWNLOAD_DIR;
+  if (!fs.existsSync(outputDir)) fs.mkdirSync(outputDir, { recursive: true });
+
+  // URLからハッシュを生成してファイル名にする
+  const hash = crypto.createHash("sha256").update(url).digest("hex");
+  const fileName = `${hash}.flac`;
+  const outputFile = path.join(outputDir, fileName);
+
+  // 既にファイルが存在していたらダウンロードをスキップ
+  if (!fs.existsSync(outputFile)) {
+    try {
+      await source.download(url, outputFile, (progress) => onProgress?.("downloading", progress));
+    } catch (err) {
+      console.error(`[RemoteSource] Download failed (${source.name}):`, err);
+      return null;
+    }
+  }
+
+  // ラウドネスを測定して ReplayGain のタグを書き込む（以前にダウンロードしたファイルも対象）
+  onProgress?.("processing", 100);
+  await applyReplayGain(outputFile);
+
+  // メタデータを取得（キャッシュに記録済みの場合はそれを使う）
+  let tags = getCacheEntry(hash)?.tags;
+  if (!tags) {
+    try {
+      tags = await source.getTags(url, outputFile);
+    } catch (err) {
+      console.error(`[RemoteSource] Failed to get metadata (${source.name}):`, err);
+      tags = { Name: url, アルバム: source.label, アルバムアーティスト: source.label };
+    }
+  }
+
+  recordCacheEntry({
+    id: hash,
+    url,
+    title: String(tags.Name ?? ""),
+    channel: String(tags["アーティスト"] ?? ""),
+    fileName,
+    tags,
+  });
+
+  return { ...tags, _relativePath: outputFile };
+}
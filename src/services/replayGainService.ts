@@ -0,0 +1,192 @@
+/**
+ * ダウンロードした音声ファイルに ReplayGain のタグを付けるサービスです。
+ * ffmpeg で EBU R128 のラウドネスを測定し、ライブラリのトラックと同じ音量で再生されるよう
+ * ReplayGain のタグを書き込みます。
+ */
+
+import { spawn } from "child_process";
+import fs from "fs";
+
+/** ReplayGain 2.0 の基準ラウドネス（LUFS） */
+const REPLAYGAIN_REFERENCE_LUFS = -18;
+
+/** ラウドネスの測定結果 */
+interface LoudnessInfo {
+  /** 統合ラウドネス（LUFS） */
+  integrated: number;
+  /** トゥルーピーク（dBTP） */
+  truePeak: number;
+}
+
+/**
+ * ffmpegの loudnorm フィルターを使用して、EBU R128 の統合ラウドネスとトゥルーピークを測定します。
+ * @param filePath 音声ファイルのパス
+ * @returns 測定結果
+ */
+async function measureLoudness(filePath: string): Promise<LoudnessInfo> {
+  return new Promise<LoudnessInfo>((resolve, reject) => {
+    console.log(`[ffmpeg] Measuring loudness: ${filePath}`);
+
+    const ffmpeg = spawn(
+      "ffmpeg",
+      [
+        "-i",
+        filePath,
+        "-af",
+        "loudnorm=print_format=json",
+        "-f",
+        "null",
+        process.platform === "win32" ? "NUL" : "/dev/null",
+      ],
+      {
+        stdio: ["ignore", "ignore", "pipe"],
+      }
+    );
+
+    let output = "";
+    ffmpeg.stderr.on("data", (data) => {
+      output += data.toString();
+    });
+
+    ffmpeg.on("close", (code: number) => {
+      // 測定結果は標準エラー出力の最後に JSON で出力される
+      const json = output.slice(output.lastIndexOf("{"), output.lastIndexOf("}") + 1);
+      try {
+        const result = JSON.parse(json);
+        const integrated = parseFloat(result.input_i);
+        const truePeak = parseFloat(result.input_tp);
+        if (code === 0 && Number.isFinite(integrated) && Number.isFinite(truePeak)) {
+          resolve({ integrated, truePeak });
+          return;
+        }
+      } catch {
+        // 下で失敗として扱う
+      }
+      reject(new Error(`ffmpeg loudness measurement failed with code ${code}`));
+    });
+
+    ffmpeg.on("error", reject);
+  });
+}
+
+/**
+ * 音声ファイルに ReplayGain のタグが付いているかを確認します。
+ * @param filePath 音声ファイルのパス
+ * @returns タグが付いている場合は true
+ */
+async function hasReplayGainTag(filePath: string): Promise<boolean> {
+  return new Promise<boolean>((resolve) => {
+    const ffprobe = spawn(
+      "ffprobe",
+      ["-v", "quiet", "-show_format", "-print_format", "json", filePath],
+      {
+        stdio: ["ignore", "pipe", "ignore"],
+      }
+    );
+
+    let output = "";
+    ffprobe.stdout.on("data", (data) => {
+      output += data.toString();
+    });
+
+    ffprobe.on("close", () => {
+      try {
+        const tags = JSON.parse(output).format?.tags ?? {};
+        resolve(Object.keys(tags).some((key) => key.toUpperCase() === "REPLAYGAIN_ALBUM_GAIN"));
+      } catch {
+        resolve(false);
+      }
+    });
+    ffprobe.on("error", () => resolve(false));
+  });
+}
+
+/**
+ * 測定したラウドネスから ReplayGain のトラック・アルバムゲインを求め、タグとして書き込みます。
+ * 音声データはコピーするだけで書き換えません。
+ * ダウンロードした音声は単独で再生されるため、アルバムゲインにはトラックゲインと同じ値を書き込みます。
+ * @param filePath 音声ファイルのパス
+ * @param loudness ラウドネスの測定結果
+ */
+async function writeReplayGainTags(filePath: string, loudness: LoudnessInfo): Promise<void> {
+  const tempFile = filePath + ".temp.flac";
+  const gain = `${(REPLAYGAIN_REFERENCE_LUFS - loudness.integrated).toFixed(2)} dB`;
+  const peak = Math.pow(10, loudness.truePeak / 20).toFixed(6);
+
+  return new Promise<void>((resolve, reject) => {
+    console.log(`[ffmpeg] Writing ReplayGain ${gain} to: ${filePath}`);
+
+    const ffmpeg = spawn(
+      "ffmpeg",
+      [
+        "-i",
+        filePath,
+        "-map",
+        "0",
+        "-c",
+        "copy",
+        "-metadata",
+        `REPLAYGAIN_TRACK_GAIN=${gain}`,
+        "-metadata",
+        `REPLAYGAIN_TRACK_PEAK=${peak}`,
+        "-metadata",
+        `REPLAYGAIN_ALBUM_GAIN=${gain}`,
+        "-metadata",
+        `REPLAYGAIN_ALBUM_PEAK=${peak}`,
+        "-y",
+        tempFile,
+      ],
+      {
+        stdio: "ignore",
+      }
+    );
+
+    ffmpeg.on("close", (code: number) => {
+      if (code === 0) {
+        // タグの書き込みが成功したら元ファイルを置き換え
+        try {
+          fs.unlinkSync(filePath);
+          fs.renameSync(tempFile, filePath);
+          resolve();
+        } catch (err) {
+          reject(new Error(`Failed to replace tagged file: ${err}`));
+        }
+      } else {
+        // 失敗した場合は一時ファイルを削除
+        if (fs.existsSync(tempFile)) {
+          fs.unlinkSync(tempFile);
+        }
+        reject(new Error(`ffmpeg exited with code ${code}`));
+      }
+    });
+
+    ffmpeg.on("error", (err) => {
+      // エラーが発生した場合は一時ファイルを削除
+      if (fs.existsSync(tempFile)) {
+        fs.unlinkSync(tempFile);
+      }
+      reject(err);
+    });
+  });
+}
+
+/**
+ * ReplayGain のタグが付いていない音声ファイルのラウドネスを測定し、タグを書き込みます。
+ * ライブラリのトラックと同じく、再生時に AudioManager がアルバムゲインを読み取って音量を揃えます。
+ * @param filePath 音声ファイルのパス
+ */
+export async function applyReplayGain(filePath: string): Promise<void> {
+  if (await hasReplayGainTag(filePath)) return;
+
+  try {
+    const loudness = await measureLoudness(filePath);
+    console.log(`[Audio Analysis] File: ${filePath}`);
+    console.log(
+      `[Audio Analysis]: ${loudness.integrated.toFixed(2)} LUFS, peak ${loudness.truePeak.toFixed(2)} dBTP`
+    );
+    await writeReplayGainTags(filePath, loudness);
+  } catch (err) {
+    console.error("[ReplayGain] Failed:", err);
+    // タグの書き込みに失敗してもファイルは使用可能なので処理を続行
+  }
+}
@@ -0,0 +1,171 @@
+/**
+ * 音楽ライブラリの全文検索を行うサービスです。
+ * ライブラリの読み込み時に検索インデックスを構築し、
+ * 全角/半角・ひらがな/カタカナを区別せずにトラックを検索します。
+ */
+
+import { LibraryData, TrackInfo } from "../types/index.js";
+
+/** 検索対象のフィールドと重み */
+const SEARCH_FIELDS: { key: string; weight: number }[] = [
+  { key: "Name", weight: 4 },
+  { key: "アーティスト", weight: 3 },
+  { key: "アルバム", weight: 2 },
+  { key: "アルバムアーティスト", weight: 2 },
+  { key: "作曲者", weight: 1 },
+];
+
+/** 検索インデックスの1エントリ */
+interface SearchEntry {
+  artist: string;
+  album: string;
+  track: TrackInfo;
+  fields: string[];
+}
+
+/** 検索結果 */
+export interface SearchResult {
+  trackId?: number;
+  artist: string;
+  album: string;
+  title: string;
+  trackArtist: string;
+  composer: string;
+  score: number;
+}
+
+let searchIndex: SearchEntry[] = [];
+let trackIdMap = new Map<number, TrackInfo>();
+
+/**
+ * 検索用に文字列を正規化します。
+ * 全角英数字・半角カタカナを NFKC で統一し、ひらがなをカタカナに変換して小文字化します。
+ * @param text 正規化する文字列
+ * @returns 正規化した文字列
+ */
+export function normalizeSearchText(text: string): string {
+  return text
+    .normalize("NFKC")
+    .replace(/[ぁ-ゖ]/g, (ch) => String.fromCharCode(ch.charCodeAt(0) + 0x60))
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * ライブラリデータから検索インデックスを再構築します。
+ * @param libraryData ライブラリデータ
+ */
+export function rebuildSearchIndex(libraryData: LibraryData): void {
+  const entries: SearchEntry[] = [];
+  const idMap = new Map<number, TrackInfo>();
+
+  for (const artist of Object.keys(libraryData.artistMap)) {
+    for (const album of Object.keys(libraryData.artistMap[artist])) {
+      for (const track of libraryData.artistMap[artist][album]) {
+        if (typeof track["Track ID"] === "number") {
+          idMap.set(track["Track ID"], track);
+        }
+        entries.push({
+          artist,
+          album,
+          track,
+          fields: SEARCH_FIELDS.map(({ key }) => {
+            const value = track[key];
+            return value === undefined ? "" : normalizeSearchText(String(value));
+          }),
+        });
+      }
+    }
+  }
+
+  searchIndex = entries;
+  trackIdMap = idMap;
+  console.log(`[Search] Rebuilt search index. entries = ${entries.length}`);
+}
+
+/**
+ * 1つの検索語に対するエントリのスコアを計算します。
+ * 完全一致、前方一致、部分一致の順に高いスコアを与えます。
+ * @param entry 検索インデックスのエントリ
+ * @param term 正規化済みの検索語
+ * @returns スコア。どのフィールドにも一致しない場合は0
+ */
+function scoreTerm(entry: SearchEntry, term: string): number {
+  let best = 0;
+  entry.fields.forEach((field, i) => {
+    if (!field) return;
+    const weight = SEARCH_FIELDS[i].weight;
+    let score = 0;
+    if (field === term) {
+      score = 10 * weight;
+    } else if (field.startsWith(term)) {
+      score = 5 * weight;
+    } else if (field.includes(term)) {
+      score = 2 * weight;
+    }
+    best = Math.max(best, score);
+  });
+  return best;
+}
+
+/**
+ * ライブラリを検索します。
+ * 空白で区切った検索語がすべていずれかのフィールドに含まれるトラックを、スコアの高い順に返します。
+ * @param query 検索クエリ
+ * @param limit 最大件数
+ * @returns 検索結果の配列
+ */
+export function searchLibrary(query: string, limit: number = 50): SearchResult[] {
+  const normalized = normalizeSearchText(query);
+  if (!normalized) return [];
+
+  const terms = normalized.split(" ");
+  const results: SearchResult[] = [];
+
+  for (const entry of searchIndex) {
+    let total = 0;
+    for (const term of terms) {
+      const score = scoreTerm(entry, term);
+      if (score === 0) {
+        total = 0;
+        break;
+      }
+      total += score;
+    }
+    if (total === 0) continue;
+
+    // クエリ全体がフィールドと完全に一致する場合は優先する
+    if (terms.length > 1 && entry.fields.includes(normalized)) {
+      total *= 2;
+    }
+
+    results.push({
+      trackId: entry.track["Track ID"] as number | undefined,
+      artist: entry.artist,
+      album: entry.album,
+      title: (entry.track["Name"] as string) || "",
+      trackArtist: (entry.track["アーティスト"] as string) || "",
+      composer: (entry.track["作曲者"] as string) || "",
+      score: total,
+    });
+  }
+
+  results.sort(
+    (a, b) =>
+      b.score - a.score ||
+      a.artist.localeCompare(b.artist, "ja") ||
+      a.album.localeCompare(b.album, "ja") ||
+      a.title.localeCompare(b.title, "ja")
+  );
+  return results.slice(0, limit);
+}
+
+/**
+ * Track ID からトラックを取得します。
+ * @param trackId ライブラリの Track ID
+ * @returns トラック情報。見つからない場合は undefined
+ */
+export function findTrackById(trackId: number): TrackInfo | undefined {
+  return trackIdMap.get(trackId);
+}
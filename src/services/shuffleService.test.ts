@@ -0,0 +1,126 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { LibraryData, ShuffleSettings, TrackInfo } from "../types/index.js";
+import { ShuffleEngine } from "./shuffleService.js";
+
+/** テスト用のライブラリデータ */
+let libraryData: LibraryData;
+/** テスト用の健全性チェックで再生できないとされたトラックのパス */
+const brokenTrackPaths = new Set<string>();
+
+vi.mock("./libraryService.js", () => ({
+  getLibraryData: () => libraryData,
+  isBrokenTrack: (track: TrackInfo) => brokenTrackPaths.has(track._relativePath),
+}));
+
+const settings: ShuffleSettings = {
+  historySize: 0,
+  artistHistorySize: 0,
+  ratingWeight: 0,
+  playCountWeight: 0,
+  loveWeight: 0,
+  excludeBrokenTracks: false,
+};
+
+/**
+ * テスト用のトラックを作成します。
+ * @param name トラック名。パスにも使う
+ * @param overrides 上書きする項目
+ * @returns トラック情報
+ */
+function createTrack(name: string, overrides: Partial<TrackInfo> = {}): TrackInfo {
+  return { _relativePath: `/music/${name}.flac`, Name: name, アーティスト: name, ...overrides };
+}
+
+/**
+ * トラックを1つのアルバムに入れたライブラリデータを設定します。
+ * @param tracks トラックの配列
+ */
+function setLibrary(tracks: TrackInfo[]): void {
+  libraryData = {
+    allTracksCount: tracks.length,
+    artistMap: { Artist: { Album: tracks } },
+    playlists: [],
+  };
+}
+
+beforeEach(() => {
+  brokenTrackPaths.clear();
+  // 乱数を固定すると、重みが最も大きいトラックが選ばれる
+  vi.spyOn(Math, "random").mockReturnValue(0.5);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("ShuffleEngine.next", () => {
+  it("ライブラリが空の場合は null を返す", () => {
+    setLibrary([]);
+
+    expect(new ShuffleEngine().next(settings)).toBeNull();
+  });
+
+  it("Rating の重みが正の場合は高評価のトラックを選びやすくする", () => {
+    setLibrary([createTrack("low", { Rating: 20 }), createTrack("high", { Rating: 100 })]);
+
+    expect(new ShuffleEngine().next({ ...settings, ratingWeight: 2 })?.Name).toBe("high");
+    expect(new ShuffleEngine().next({ ...settings, ratingWeight: -2 })?.Name).toBe("low");
+  });
+
+  it("再生回数と Love の重みを反映する", () => {
+    setLibrary([
+      createTrack("often", { "Play Count": 50 }),
+      createTrack("loved", { "Play Count": 1, Love: "L" }),
+    ]);
+
+    expect(new ShuffleEngine().next({ ...settings, playCountWeight: 2 })?.Name).toBe("often");
+    expect(new ShuffleEngine().next({ ...settings, loveWeight: 2 })?.Name).toBe("loved");
+  });
+
+  it("重みに比例した確率で選ぶ", () => {
+    vi.mocked(Math.random).mockRestore();
+    setLibrary([createTrack("low", { Rating: 0 }), createTrack("high", { Rating: 100 })]);
+    // 重みの比は e^2 : 1 なので、high が選ばれる確率は約 0.88
+    const engine = new ShuffleEngine();
+    let highCount = 0;
+    for (let i = 0; i < 2000; i++) {
+      if (engine.next({ ...settings, ratingWeight: 2 })?.Name === "high") highCount++;
+    }
+
+    expect(highCount / 2000).toBeGreaterThan(0.83);
+    expect(highCount / 2000).toBeLessThan(0.93);
+  });
+
+  it("シャッフル対象外と Love が B のトラックは選ばない", () => {
+    setLibrary([
+      createTrack("skip", { SkipWhenShuffling: "1", Rating: 100 }),
+      createTrack("banned", { Love: "B", Rating: 100 }),
+      createTrack("normal", { Rating: 0 }),
+    ]);
+
+    expect(new ShuffleEngine().next({ ...settings, ratingWeight: 2 })?.Name).toBe("normal");
+  });
+
+  it("設定した場合は再生できないトラックを選ばない", () => {
+    setLibrary([createTrack("broken", { Rating: 100 }), createTrack("ok", { Rating: 0 })]);
+    brokenTrackPaths.add("/music/broken.flac");
+    const weighted = { ...settings, ratingWeight: 2 };
+
+    expect(new ShuffleEngine().next(weighted)?.Name).toBe("broken");
+    expect(new ShuffleEngine().next({ ...weighted, excludeBrokenTracks: true })?.Name).toBe("ok");
+  });
+
+  it("最近再生したトラックとアーティストを避け、候補がなくなる場合は制限を緩める", () => {
+    const a = createTrack("a", { Rating: 100 });
+    const b = createTrack("b", { Rating: 0 });
+    setLibrary([a, b]);
+    const withHistory = { ...settings, ratingWeight: 2, historySize: 10, artistHistorySize: 10 };
+    const engine = new ShuffleEngine();
+
+    engine.recordPlayed([a], withHistory);
+    expect(engine.next(withHistory)?.Name).toBe("b");
+
+    engine.recordPlayed([b], withHistory);
+    expect(engine.next(withHistory)?.Name).toBe("a");
+  });
+});
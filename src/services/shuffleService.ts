@@ -0,0 +1,156 @@
+/**
+ * 自動再生（シャッフル）の選曲を行うサービスです。
+ * 最近再生したトラックとアーティストを避け、
+ * Rating・Play Count・Love に応じた重み付きで次のトラックを選びます。
+ * 設定によっては、ライブラリの健全性チェックで再生できないとされたトラックを選びません。
+ */
+
+import { ShuffleSettings, TrackInfo } from "../types/index.js";
+import { getLibraryData, isBrokenTrack } from "./libraryService.js";
+
+/**
+ * トラックのアーティスト名を取得します。
+ * @param track トラック情報
+ * @returns アーティスト名
+ */
+function getArtist(track: TrackInfo): string {
+  return String(track["アーティスト"] || track["アルバムアーティスト"] || "Unknown Artist");
+}
+
+/**
+ * 配列の末尾から指定した件数を取り出します。
+ * @param items 配列
+ * @param count 件数
+ * @returns 末尾の要素の配列。件数が0以下の場合は空配列
+ */
+function takeLast<T>(items: T[], count: number): T[] {
+  return count > 0 ? items.slice(-count) : [];
+}
+
+/**
+ * ギルドごとのシャッフル選曲エンジン
+ */
+export class ShuffleEngine {
+  private recentTracks: string[] = [];
+  private recentArtists: string[] = [];
+
+  /**
+   * 再生したトラックを履歴に記録します。
+   * 自動再生に限らず、リクエストで再生したトラックも記録します。
+   * @param tracks 再生したトラックの配列
+   * @param settings シャッフル設定
+   */
+  recordPlayed(tracks: TrackInfo[], settings: ShuffleSettings): void {
+    for (const track of tracks) {
+      this.recentTracks.push(track._relativePath);
+    }
+    if (tracks.length > 0) {
+      const artist = getArtist(tracks[0]);
+      this.recentArtists = this.recentArtists.filter((a) => a !== artist);
+      this.recentArtists.push(artist);
+    }
+
+    this.recentTracks = takeLast(this.recentTracks, settings.historySize);
+    this.recentArtists = takeLast(this.recentArtists, settings.artistHistorySize);
+  }
+
+  /**
+   * 次に自動再生するトラックを選びます。
+   * 候補がなくなる場合は、アーティスト履歴、トラック履歴の順に制限を緩めます。
+   * @param settings シャッフル設定
+   * @returns 選ばれたトラック。ライブラリが空の場合は null
+   */
+  next(settings: ShuffleSettings): TrackInfo | null {
+    const libraryData = getLibraryData();
+    if (libraryData.allTracksCount == 0) return null;
+
+    const recentTracks = new Set(takeLast(this.recentTracks, settings.historySize));
+    const recentArtists = new Set(takeLast(this.recentArtists, settings.artistHistorySize));
+
+    return (
+      this.pick(settings, recentTracks, recentArtists) ??
+      this.pick(settings, recentTracks, new Set()) ??
+      this.pick(settings, new Set(), new Set())
+    );
+  }
+
+  /**
+   * 重み付きリザーバーサンプリングでトラックを1つ選びます。
+   * @param settings シャッフル設定
+   * @param excludeTracks 除外するトラックのパス
+   * @param excludeArtists 除外するアーティスト
+   * @returns 選ばれたトラック。候補がない場合は null
+   */
+  private pick(
+    settings: ShuffleSettings,
+    excludeTracks: Set<string>,
+    excludeArtists: Set<string>
+  ): TrackInfo | null {
+    const libraryData = getLibraryData();
+    const maxPlayCount = this.getMaxPlayCount();
+
+    let selectedTrack: TrackInfo | null = null;
+    let selectedKey = -Infinity;
+
+    for (const artistName of Object.keys(libraryData.artistMap)) {
+      for (const albumName of Object.keys(libraryData.artistMap[artistName])) {
+        for (const track of libraryData.artistMap[artistName][albumName]) {
+          if (track.SkipWhenShuffling === "1" || track.Love === "B") continue;
+          if (settings.excludeBrokenTracks && isBrokenTrack(track)) continue;
+          if (excludeTracks.has(track._relativePath)) continue;
+          if (excludeArtists.has(getArtist(track))) continue;
+
+          // key = log(u) / w が最大のものを選ぶと、重み w に比例した確率で選ばれる
+          const weight = this.getWeight(track, settings, maxPlayCount);
+          const key = Math.log(Math.random()) / weight;
+          if (key > selectedKey) {
+            selectedKey = key;
+            selectedTrack = track;
+          }
+        }
+      }
+    }
+
+    return selectedTrack;
+  }
+
+  /**
+   * トラックの選ばれやすさを計算します。
+   * 各重みが0の場合は一様、正の値で高評価・再生回数が多い・Love のトラックが選ばれやすくなります。
+   * @param track トラック情報
+   * @param settings シャッフル設定
+   * @param maxPlayCount ライブラリ内の最大再生回数
+   * @returns 正の重み
+   */
+  private getWeight(track: TrackInfo, settings: ShuffleSettings, maxPlayCount: number): number {
+    const rating = Number(track["Rating"] ?? 0) / 100;
+    const playCount =
+      maxPlayCount > 0
+        ? Math.log1p(Number(track["Play Count"] ?? 0)) / Math.log1p(maxPlayCount)
+        : 0;
+    const loved = track.Love === "L" ? 1 : 0;
+
+    return Math.exp(
+      settings.ratingWeight * (rating - 0.5) +
+        settings.playCountWeight * (playCount - 0.5) +
+        settings.loveWeight * loved
+    );
+  }
+
+  /**
+   * ライブラリ内の最大再生回数を取得します。
+   * @returns 最大再生回数
+   */
+  private getMaxPlayCount(): number {
+    const libraryData = getLibraryData();
+    let max = 0;
+    for (const albumMap of Object.values(libraryData.artistMap)) {
+      for (const tracks of Object.values(albumMap)) {
+        for (const track of tracks) {
+          max = Math.max(max, Number(track["Play Count"] ?? 0));
+        }
+      }
+    }
+    return max;
+  }
+}
@@ -0,0 +1,26 @@
+/**
+ * トラックのファイルパスを解決するサービスです。
+ * TrackInfo._relativePath にはファイルの絶対パスが入ります。
+ * 以前のバージョンで保存されたキューなどに残っている dist からの相対パスも、同じ絶対パスに解決します。
+ * ファイルを読み込む処理は、メインスレッド・ワーカーともにこの関数でパスを求めます。
+ */
+
+import path from "path";
+import { fileURLToPath } from "url";
+import { TrackInfo } from "../types/index.js";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+/** 以前のバージョンの相対パスの基準となるディレクトリ（dist） */
+const LEGACY_BASE_DIR = path.join(__dirname, "..");
+
+/**
+ * トラックのファイルの絶対パスを求めます。
+ * @param track トラック情報
+ * @returns ファイルの絶対パス
+ */
+export function resolveTrackPath(track: TrackInfo): string {
+  const filePath = track._relativePath;
+  return path.isAbsolute(filePath) ? filePath : path.resolve(LEGACY_BASE_DIR, filePath);
+}
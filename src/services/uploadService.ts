@@ -0,0 +1,159 @@
+/**
+ * アップロードされた音声ファイルを管理するサービスです。
+ * ffprobe と music-metadata でファイルを検証して uploads ディレクトリに保存し、
+ * 埋め込まれたタグから TrackInfo を作成します。
+ * 保存期間を過ぎたファイルは、再生中・キューに入っているものを除いて定期的に削除します。
+ */
+
+import { spawn } from "child_process";
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import { parseFile } from "music-metadata";
+import { UPLOAD_RETENTION_MS } from "../config/index.js";
+import { TrackInfo } from "../types/index.js";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+/** アップロードされたファイルの保存先 */
+const UPLOAD_DIR = path.join(__dirname, "../../uploads");
+
+/** 保存期間を過ぎたファイルを確認する間隔（ミリ秒） */
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+
+let getQueuedPaths: () => string[] = () => [];
+
+/**
+ * アップロードの初期設定を行い、保存期間を過ぎたファイルの定期的な削除を開始します。
+ * @param queuedPaths 再生中・キューに入っているトラックの _relativePath を返す関数
+ */
+export function initUploads(queuedPaths: () => string[]): void {
+  getQueuedPaths = queuedPaths;
+  cleanupUploads();
+  setInterval(cleanupUploads, CLEANUP_INTERVAL_MS);
+}
+
+/**
+ * ffprobe で音声ストリームを含むファイルかを確認します。
+ * @param filePath ファイルのパス
+ * @returns 再生時間のある音声ストリームを含む場合は true
+ */
+async function hasAudioStream(filePath: string): Promise<boolean> {
+  return new Promise<boolean>((resolve) => {
+    const ffprobe = spawn(
+      "ffprobe",
+      ["-v", "quiet", "-show_streams", "-show_format", "-print_format", "json", filePath],
+      {
+        stdio: ["ignore", "pipe", "ignore"],
+      }
+    );
+
+    let output = "";
+    ffprobe.stdout.on("data", (data) => {
+      output += data.toString();
+    });
+
+    ffprobe.on("close", (code: number) => {
+      try {
+        const probe = JSON.parse(output);
+        const streams: { codec_type?: string }[] = probe.streams ?? [];
+        const duration = parseFloat(probe.format?.duration);
+        resolve(
+          code === 0 && streams.some((s) => s.codec_type === "audio") && Number.isFinite(duration)
+        );
+      } catch {
+        resolve(false);
+      }
+    });
+    ffprobe.on("error", () => resolve(false));
+  });
+}
+
+/**
+ * アップロードされたファイルの保存先を決め、書き込み用のストリームを開きます。
+ * @param originalName アップロード時のファイル名
+ * @returns 保存先のファイルパスと書き込み用のストリーム
+ */
+export function createUploadFile(originalName: string): {
+  filePath: string;
+  output: fs.WriteStream;
+} {
+  fs.mkdirSync(UPLOAD_DIR, { recursive: true });
+
+  // 拡張子は ffmpeg が形式を判別する手がかりになるため、英数字のものだけ残す
+  const ext = path.extname(originalName).toLowerCase();
+  const fileName = `${crypto.randomUUID()}${/^\.[a-z0-9]{1,5}$/.test(ext) ? ext : ""}`;
+  const filePath = path.join(UPLOAD_DIR, fileName);
+  return { filePath, output: fs.createWriteStream(filePath) };
+}
+
+/**
+ * createUploadFile で書き込んだファイルを検証し、TrackInfo を作成します。
+ * 音声ファイルとして読み込めない場合はファイルを削除します。
+ * @param filePath 書き込んだファイルのパス
+ * @param originalName アップロード時のファイル名
+ * @returns TrackInfo。音声ファイルとして読み込めない場合は null
+ */
+export async function storeUpload(
+  filePath: string,
+  originalName: string
+): Promise<TrackInfo | null> {
+  const fileName = path.basename(filePath);
+  try {
+    if (!(await hasAudioStream(filePath))) {
+      throw new Error("No audio stream found");
+    }
+
+    const { common } = await parseFile(filePath);
+    const fallbackName = path.basename(originalName, path.extname(originalName)) || "Upload";
+    console.log(`[Upload] Stored: ${originalName} as ${fileName}`);
+
+    return {
+      _relativePath: filePath,
+      Name: common.title || fallbackName,
+      アルバム: common.album || "Upload",
+      アルバムアーティスト: common.albumartist || common.artist || "Upload",
+      アーティスト: common.artist || "Upload",
+      作曲者: common.composer?.join(", "),
+      "Track Number": common.track.no ?? undefined,
+      "Disc Number": common.disk.no ?? undefined,
+    };
+  } catch (err) {
+    console.warn(`[Upload] Rejected ${originalName}:`, err);
+    await fs.promises.rm(filePath, { force: true });
+    return null;
+  }
+}
+
+/**
+ * アップロードされたファイルを削除します。
+ * 上限のサイズを超えた場合や、キューに追加できなかった場合に呼び出します。
+ * @param filePath createUploadFile で作成したファイルのパス
+ */
+export function deleteUpload(filePath: string): void {
+  fs.rmSync(path.join(UPLOAD_DIR, path.basename(filePath)), { force: true });
+}
+
+/**
+ * 保存期間を過ぎたファイルを削除します。
+ * 再生中・キューに入っているファイルは、キューからなくなった後の確認で削除します。
+ */
+function cleanupUploads(): void {
+  if (!fs.existsSync(UPLOAD_DIR)) return;
+
+  const queued = new Set(getQueuedPaths().map((p) => path.basename(p)));
+  const expiredBefore = Date.now() - UPLOAD_RETENTION_MS;
+  for (const fileName of fs.readdirSync(UPLOAD_DIR)) {
+    if (queued.has(fileName)) continue;
+    const filePath = path.join(UPLOAD_DIR, fileName);
+    try {
+      if (fs.statSync(filePath).mtimeMs > expiredBefore) continue;
+      fs.rmSync(filePath, { force: true });
+      console.log(`[Upload] Deleted expired upload: ${fileName}`);
+    } catch (err) {
+      console.error(`[Upload] Failed to delete ${fileName}:`, err);
+    }
+  }
+}
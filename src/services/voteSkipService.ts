@@ -0,0 +1,97 @@
+/**
+ * 投票によるスキップを管理するサービスです。
+ * ボイスチャンネルにいるリスナーのうち、設定した割合が投票した時点でスキップします。
+ * 再生中のトラックをリクエストしたユーザーは投票なしでスキップできます。
+ */
+
+import { GuildState, VoteSkipSettings } from "../types/index.js";
+import { skipPlayback } from "./playbackService.js";
+
+/** 投票の結果 */
+export interface VoteSkipResult {
+  /** skipped: スキップした / voted: 投票を受け付けた / notListener: リスナーでないため投票できない */
+  status: "skipped" | "voted" | "notListener";
+  votes: number;
+  required: number;
+}
+
+/**
+ * スキップに必要な投票数を取得します。
+ * @param state ギルドの状態
+ * @param settings 投票スキップの設定
+ * @returns 必要な投票数
+ */
+export function getRequiredVotes(state: GuildState, settings: VoteSkipSettings): number {
+  const threshold = Math.min(Math.max(settings.threshold, 0), 1);
+  return Math.max(1, Math.ceil(state.listeners.length * threshold));
+}
+
+/**
+ * 現在の投票数を取得します。
+ * ボイスチャンネルから退出したユーザーの投票は数えません。
+ * @param state ギルドの状態
+ * @returns 投票数
+ */
+export function getVoteCount(state: GuildState): number {
+  return state.listeners.filter((id) => state.skipVotes.has(id)).length;
+}
+
+/**
+ * 再生中のトラックへの投票を取り消します。トラックが切り替わるたびに呼び出します。
+ * @param state ギルドの状態
+ */
+export function resetSkipVotes(state: GuildState): void {
+  state.skipVotes.clear();
+}
+
+/**
+ * スキップに投票します。
+ * 投票スキップが無効な場合と、再生中のトラックのリクエスト者の場合は即座にスキップします。
+ * @param state ギルドの状態
+ * @param settings 投票スキップの設定
+ * @param userId 投票した Discord ユーザーID
+ * @returns 投票の結果
+ */
+export function voteSkip(
+  state: GuildState,
+  settings: VoteSkipSettings,
+  userId: string
+): VoteSkipResult {
+  const requester = state.currentTrack?.[0]?._requestedBy;
+  if (!settings.enabled || (requester && requester === userId)) {
+    skipPlayback(state);
+    return { status: "skipped", votes: getVoteCount(state), required: 0 };
+  }
+
+  if (!state.listeners.includes(userId)) {
+    return {
+      status: "notListener",
+      votes: getVoteCount(state),
+      required: getRequiredVotes(state, settings),
+    };
+  }
+
+  state.skipVotes.add(userId);
+  const votes = getVoteCount(state);
+  const required = getRequiredVotes(state, settings);
+  const skipped = applyVoteSkip(state, settings);
+  return { status: skipped ? "skipped" : "voted", votes, required };
+}
+
+/**
+ * 投票数が必要数に達していればスキップします。
+ * リスナーが減って必要数が下がった場合にも呼び出します。
+ * @param state ギルドの状態
+ * @param settings 投票スキップの設定
+ * @returns スキップした場合は true
+ */
+export function applyVoteSkip(state: GuildState, settings: VoteSkipSettings): boolean {
+  if (!settings.enabled || state.skipRequested) return false;
+  if (!state.currentTrack || state.currentTrack.length === 0) return false;
+
+  const votes = getVoteCount(state);
+  if (votes === 0 || votes < getRequiredVotes(state, settings)) return false;
+
+  skipPlayback(state);
+  return true;
+}
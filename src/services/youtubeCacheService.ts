@@ -0,0 +1,239 @@
+/**
+ * YouTube などのリモートの音声のダウンロードキャッシュを管理するサービスです。
+ * ダウンロードしたファイルの URL・タイトル・チャンネル・サイズ・最終再生日時を
+ * インデックスに記録し、合計サイズが上限を超えた場合は古いものから削除します。
+ */
+
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import { YOUTUBE_CACHE_MAX_BYTES } from "../config/index.js";
+import { TrackInfo } from "../types/index.js";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+/** ダウンロードしたファイルの保存先 */
+export const YOUTUBE_DOWNLOAD_DIR = path.join(__dirname, "../../youtube_downloads");
+
+const INDEX_PATH = path.join(YOUTUBE_DOWNLOAD_DIR, "index.json");
+
+/** キャッシュのエントリ */
+export interface YoutubeCacheEntry {
+  /** URL のハッシュ（ファイル名の拡張子を除いた部分） */
+  id: string;
+  url: string;
+  title: string;
+  channel: string;
+  fileName: string;
+  size: number;
+  downloadedAt: number;
+  lastPlayedAt: number;
+  /** true の場合は容量超過時にも削除しない */
+  pinned: boolean;
+  /** TrackInfo の項目に対応付けたメタデータ */
+  tags?: Omit<TrackInfo, "_relativePath">;
+}
+
+let entries: { [id: string]: YoutubeCacheEntry } | null = null;
+let getQueuedPaths: () => string[] = () => [];
+
+/**
+ * キャッシュの初期設定を行います。
+ * @param queuedPaths 再生中・キューに入っているトラックの _relativePath を返す関数
+ */
+export function initYoutubeCache(queuedPaths: () => string[]): void {
+  getQueuedPaths = queuedPaths;
+  loadIndex();
+}
+
+/**
+ * インデックスを読み込みます。
+ * インデックスにないファイルは登録し、ファイルがなくなったエントリは削除します。
+ * @returns キャッシュのエントリ
+ */
+function loadIndex(): { [id: string]: YoutubeCacheEntry } {
+  if (entries) return entries;
+
+  let loaded: { [id: string]: YoutubeCacheEntry } = {};
+  if (fs.existsSync(INDEX_PATH)) {
+    try {
+      loaded = JSON.parse(fs.readFileSync(INDEX_PATH, "utf-8"));
+    } catch (err) {
+      console.error("[YoutubeCache] Failed to load cache index:", err);
+    }
+  }
+
+  const files = fs.existsSync(YOUTUBE_DOWNLOAD_DIR)
+    ? fs.readdirSync(YOUTUBE_DOWNLOAD_DIR).filter((f) => /^[0-9a-f]{64}\.flac$/.test(f))
+    : [];
+  for (const fileName of files) {
+    const id = path.basename(fileName, ".flac");
+    if (loaded[id]) continue;
+    const stat = fs.statSync(path.join(YOUTUBE_DOWNLOAD_DIR, fileName));
+    loaded[id] = {
+      id,
+      url: "",
+      title: "",
+      channel: "",
+      fileName,
+      size: stat.size,
+      downloadedAt: stat.mtimeMs,
+      lastPlayedAt: stat.mtimeMs,
+      pinned: false,
+    };
+  }
+  for (const id of Object.keys(loaded)) {
+    if (!files.includes(loaded[id].fileName)) delete loaded[id];
+  }
+
+  entries = loaded;
+  saveIndex();
+  return entries;
+}
+
+/**
+ * インデックスをファイルに保存します。
+ */
+function saveIndex(): void {
+  if (!entries) return;
+  try {
+    fs.mkdirSync(YOUTUBE_DOWNLOAD_DIR, { recursive: true });
+    fs.writeFileSync(INDEX_PATH, JSON.stringify(entries, null, 2), "utf-8");
+  } catch (err) {
+    console.error("[YoutubeCache] Failed to save cache index:", err);
+  }
+}
+
+/**
+ * キャッシュのエントリを取得します。
+ * @param id URL のハッシュ
+ * @returns エントリ。存在しない場合は undefined
+ */
+export function getCacheEntry(id: string): YoutubeCacheEntry | undefined {
+  return loadIndex()[id];
+}
+
+/**
+ * キャッシュのエントリを最終再生日時の新しい順に取得します。
+ * @returns エントリの配列
+ */
+export function listCacheEntries(): YoutubeCacheEntry[] {
+  return Object.values(loadIndex()).sort((a, b) => b.lastPlayedAt - a.lastPlayedAt);
+}
+
+/**
+ * ダウンロードしたファイルをキャッシュに登録し、容量の上限を超えた場合は古いものを削除します。
+ * @param entry 登録する内容
+ */
+export function recordCacheEntry(
+  entry: Pick<YoutubeCacheEntry, "id" | "url" | "title" | "channel" | "fileName" | "tags">
+): void {
+  const index = loadIndex();
+  const filePath = path.join(YOUTUBE_DOWNLOAD_DIR, entry.fileName);
+  const size = fs.existsSync(filePath) ? fs.statSync(filePath).size : 0;
+  const now = Date.now();
+
+  const existing = index[entry.id];
+  index[entry.id] = {
+    ...entry,
+    size,
+    downloadedAt: existing?.downloadedAt ?? now,
+    lastPlayedAt: now,
+    pinned: existing?.pinned ?? false,
+  };
+  // 登録したファイルはこれからキューに追加されるため削除しない
+  evictCache(entry.id);
+  saveIndex();
+}
+
+/**
+ * 再生を開始したトラックのうち、キャッシュにあるものの最終再生日時を更新します。
+ * @param tracks 再生を開始したトラックの配列
+ */
+export function touchCacheEntries(tracks: TrackInfo[]): void {
+  const index = loadIndex();
+  let changed = false;
+  for (const track of tracks) {
+    const entry = index[path.basename(track._relativePath, ".flac")];
+    if (!entry) continue;
+    entry.lastPlayedAt = Date.now();
+    changed = true;
+  }
+  if (changed) saveIndex();
+}
+
+/**
+ * キャッシュのエントリを固定・固定解除します。
+ * @param id URL のハッシュ
+ * @param pinned true の場合は固定する
+ * @returns 更新したエントリ。存在しない場合は undefined
+ */
+export function setCachePinned(id: string, pinned: boolean): YoutubeCacheEntry | undefined {
+  const entry = loadIndex()[id];
+  if (!entry) return undefined;
+  entry.pinned = pinned;
+  saveIndex();
+  return entry;
+}
+
+/**
+ * キャッシュのエントリとファイルを削除します。
+ * 再生中・キューに入っているファイルは削除しません。
+ * @param id URL のハッシュ
+ * @returns deleted: 削除した / notFound: 存在しない / inUse: 使用中のため削除しなかった
+ */
+export function deleteCacheEntry(id: string): "deleted" | "notFound" | "inUse" {
+  const entry = loadIndex()[id];
+  if (!entry) return "notFound";
+  if (getQueuedFileNames().has(entry.fileName)) return "inUse";
+
+  removeEntry(entry);
+  saveIndex();
+  return "deleted";
+}
+
+/**
+ * 合計サイズが上限を超えている間、最終再生日時の古いエントリから削除します。
+ * 固定したエントリと、再生中・キューに入っているファイルは削除しません。
+ * @param keepId 削除しないエントリの ID
+ */
+function evictCache(keepId?: string): void {
+  const index = loadIndex();
+  let total = Object.values(index).reduce((sum, e) => sum + e.size, 0);
+  if (total <= YOUTUBE_CACHE_MAX_BYTES) return;
+
+  const queued = getQueuedFileNames();
+  const candidates = Object.values(index)
+    .filter((e) => e.id !== keepId && !e.pinned && !queued.has(e.fileName))
+    .sort((a, b) => a.lastPlayedAt - b.lastPlayedAt);
+
+  for (const entry of candidates) {
+    if (total <= YOUTUBE_CACHE_MAX_BYTES) break;
+    removeEntry(entry);
+    total -= entry.size;
+    console.log(`[YoutubeCache] Evicted: ${entry.title || entry.fileName}`);
+  }
+}
+
+/**
+ * エントリのファイルを削除し、インデックスから取り除きます。
+ * @param entry 削除するエントリ
+ */
+function removeEntry(entry: YoutubeCacheEntry): void {
+  try {
+    fs.rmSync(path.join(YOUTUBE_DOWNLOAD_DIR, entry.fileName), { force: true });
+  } catch (err) {
+    console.error(`[YoutubeCache] Failed to delete ${entry.fileName}:`, err);
+    return;
+  }
+  delete loadIndex()[entry.id];
+}
+
+/**
+ * 再生中・キューに入っているファイルの名前を取得します。
+ * @returns ファイル名の集合
+ */
+function getQueuedFileNames(): Set<string> {
+  return new Set(getQueuedPaths().map((p) => path.basename(p)));
+}
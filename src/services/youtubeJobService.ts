@@ -0,0 +1,241 @@
+/**
+ * YouTube などのリモートの音声のダウンロードをバックグラウンドのジョブとして実行するサービスです。
+ * リクエストには即座にジョブIDを返し、ダウンロード中はキューにプレースホルダーを置いて、
+ * 完了したら実際のトラックに置き換えます。同じ URL の同時リクエストは1つのジョブにまとめます。
+ * プレイリストの動画は一度にダウンロードせず、キューの先頭に近づいたものから順にダウンロードします。
+ */
+
+import crypto from "crypto";
+import { GuildState, TrackInfo } from "../types/index.js";
+import { enqueueTrack, enqueueTracks, EnqueueOptions, groupQueue } from "./queueService.js";
+import { findRemoteSource, remoteUrlToTrackInfo } from "./remoteSourceService.js";
+import { YoutubePlaylistEntry } from "./ytDlpService.js";
+
+/** 完了したジョブの情報を保持する時間（ミリ秒） */
+const FINISHED_JOB_TTL_MS = 10 * 60 * 1000;
+
+/** キューの先頭から何アイテム目までのプレースホルダーのダウンロードを始めるか */
+const PREFETCH_QUEUE_ITEMS = 2;
+
+/** ダウンロードジョブ */
+export interface YoutubeJob {
+  id: string;
+  url: string;
+  status: "downloading" | "processing" | "completed" | "failed";
+  /** ダウンロードの進捗（%） */
+  progress: number;
+  title?: string;
+  error?: string;
+}
+
+interface RunningJob {
+  job: YoutubeJob;
+  promise: Promise<TrackInfo | null>;
+  listeners: Set<(job: YoutubeJob) => void>;
+}
+
+const jobsById = new Map<string, YoutubeJob>();
+/** ジョブをリクエストしたギルドのID。同じ URL のジョブは複数のギルドで共有される */
+const guildIdsByJobId = new Map<string, Set<string>>();
+const runningJobsByUrl = new Map<string, RunningJob>();
+let getGuildState: (guildId: string) => GuildState | undefined = () => undefined;
+
+/**
+ * ジョブの初期設定を行います。
+ * @param guildStates ギルドIDから現在のギルドの状態を返す関数
+ */
+export function initYoutubeJobs(guildStates: (guildId: string) => GuildState | undefined): void {
+  getGuildState = guildStates;
+}
+
+/**
+ * ギルドがリクエストしたジョブを取得します。
+ * @param id ジョブID
+ * @param guildId ギルドID
+ * @returns ジョブ。存在しない、完了から時間が経っている、または他のギルドのジョブの場合は undefined
+ */
+export function getYoutubeJob(id: string, guildId: string): YoutubeJob | undefined {
+  if (!guildIdsByJobId.get(id)?.has(guildId)) return undefined;
+  return jobsById.get(id);
+}
+
+/**
+ * ダウンロードジョブを開始します。同じ URL のジョブが実行中の場合はそのジョブを返します。
+ * @param url 音声の URL
+ * @returns 実行中のジョブ
+ */
+function startYoutubeJob(url: string): RunningJob {
+  let running = runningJobsByUrl.get(url);
+  if (!running) {
+    const job: YoutubeJob = {
+      id: crypto.randomUUID(),
+      url,
+      status: "downloading",
+      progress: 0,
+    };
+    const listeners = new Set<(job: YoutubeJob) => void>();
+    const update = (changes: Partial<YoutubeJob>) => {
+      Object.assign(job, changes);
+      listeners.forEach((listener) => listener(job));
+    };
+
+    const promise = remoteUrlToTrackInfo(url, (status, progress) => {
+      // 通知が多くなりすぎないよう、1% 以上変化した場合のみ通知する
+      if (status === job.status && Math.floor(progress) === Math.floor(job.progress)) return;
+      update({ status, progress });
+    })
+      .then((track) => {
+        if (track) {
+          update({ status: "completed", progress: 100, title: String(track.Name ?? "") });
+        } else {
+          update({ status: "failed", error: "Failed to download audio" });
+        }
+        return track;
+      })
+      .catch((err) => {
+        console.error("[YoutubeJob] Job failed:", err);
+        update({ status: "failed", error: String(err) });
+        return null;
+      })
+      .finally(() => {
+        runningJobsByUrl.delete(url);
+        setTimeout(() => {
+          jobsById.delete(job.id);
+          guildIdsByJobId.delete(job.id);
+        }, FINISHED_JOB_TTL_MS);
+      });
+
+    running = { job, promise, listeners };
+    jobsById.set(job.id, job);
+    guildIdsByJobId.set(job.id, new Set());
+    runningJobsByUrl.set(url, running);
+  }
+
+  return running;
+}
+
+/**
+ * リモートの音声のダウンロードジョブを開始し、完了までの間はキューにプレースホルダーを追加します。
+ * @param guildId ギルドID
+ * @param state ギルドの状態
+ * @param url 音声の URL
+ * @param options キューへの追加時のオプション
+ * @param onUpdate ジョブの状態が変わったときに呼ばれる関数
+ * @returns ジョブと、キューの置き換えが終わったときにトラック情報（失敗時は null）を返す Promise。
+ *          リクエスト上限を超える場合は null
+ */
+export async function enqueueRemoteRequest(
+  guildId: string,
+  state: GuildState,
+  url: string,
+  options: EnqueueOptions,
+  onUpdate: (job: YoutubeJob) => void
+): Promise<{ job: YoutubeJob; done: Promise<TrackInfo | null> } | null> {
+  const label = findRemoteSource(url)?.label ?? "Web";
+  const added = await enqueueTrack(
+    state,
+    {
+      _relativePath: "",
+      _downloadUrl: url,
+      Name: `ダウンロード中: ${url}`,
+      アルバム: label,
+      アルバムアーティスト: label,
+    },
+    options
+  );
+  if (!added) return null;
+
+  return startPlaceholderDownload(guildId, added[0], url, onUpdate);
+}
+
+/**
+ * プレイリストの動画をそれぞれ1つのリクエストとしてキューに追加します。
+ * この時点ではダウンロードせず、prefetchYoutubeRequests でキューの先頭に近づいたものからダウンロードします。
+ * @param state ギルドの状態
+ * @param entries プレイリストに含まれる動画
+ * @param options キューへの追加時のオプション
+ * @returns 追加した動画の数
+ */
+export async function enqueueYoutubePlaylist(
+  state: GuildState,
+  entries: YoutubePlaylistEntry[],
+  options: EnqueueOptions
+): Promise<number> {
+  return enqueueTracks(
+    state,
+    entries.map((entry) => ({
+      _relativePath: "",
+      _downloadUrl: entry.url,
+      _duration: entry.duration,
+      Name: entry.title,
+      アルバム: "Youtube",
+      アルバムアーティスト: "Youtube",
+      アーティスト: entry.channel,
+    })),
+    options
+  );
+}
+
+/**
+ * キューの先頭に近いプレースホルダーのうち、まだダウンロードを始めていないもののダウンロードを開始します。
+ * キューが変わるたびに呼び出します。
+ * @param guildId ギルドID
+ * @param state ギルドの状態
+ * @param onUpdate ジョブの状態が変わったときに呼ばれる関数
+ * @param onDone プレースホルダーを置き換えたときに呼ばれる関数
+ */
+export function prefetchYoutubeRequests(
+  guildId: string,
+  state: GuildState,
+  onUpdate: (job: YoutubeJob) => void,
+  onDone: () => void
+): void {
+  const groups = groupQueue(state.requestQueue).slice(0, PREFETCH_QUEUE_ITEMS);
+  for (const placeholder of groups.flat()) {
+    if (!placeholder._downloadUrl || placeholder._pendingJobId) continue;
+    startPlaceholderDownload(guildId, placeholder, placeholder._downloadUrl, onUpdate).done.then(
+      onDone
+    );
+  }
+}
+
+/**
+ * プレースホルダーのダウンロードを開始します。
+ * 完了するとプレースホルダーを実際のトラックに置き換え、失敗した場合は取り除きます。
+ * 完了時にはギルドIDから現在のギルドの状態を取得し、ボイスチャンネルからの退出などで
+ * ギルドの状態が破棄されたり、プレースホルダーがキューから削除されたりしていた場合は何もしません。
+ * @param guildId ギルドID
+ * @param placeholder キューに入っているプレースホルダー
+ * @param url 音声の URL
+ * @param onUpdate ジョブの状態が変わったときに呼ばれる関数
+ * @returns ジョブと、キューの置き換えが終わったときにトラック情報（失敗時は null）を返す Promise
+ */
+function startPlaceholderDownload(
+  guildId: string,
+  placeholder: TrackInfo,
+  url: string,
+  onUpdate: (job: YoutubeJob) => void
+): { job: YoutubeJob; done: Promise<TrackInfo | null> } {
+  const { job, promise, listeners } = startYoutubeJob(url);
+  guildIdsByJobId.get(job.id)?.add(guildId);
+  placeholder._pendingJobId = job.id;
+  placeholder._downloadProgress = job.progress;
+  listeners.add((updated) => {
+    placeholder._downloadProgress = updated.progress;
+    onUpdate(updated);
+  });
+
+  const done = promise.then((track) => {
+    const state = getGuildState(guildId);
+    const index = state ? state.requestQueue.indexOf(placeholder) : -1;
+    if (!state || index < 0) return null;
+
+    if (track) {
+      state.requestQueue.splice(index, 1, { ...track, _requestedBy: placeholder._requestedBy });
+    } else {
+      state.requestQueue.splice(index, 1);
+    }
+    return track;
+  });
+  return { job, done };
+}
@@ -0,0 +1,159 @@
+/**
+ * yt-dlp を使用して動画・音声をダウンロードするサービスです。
+ * 音声を FLAC 形式でダウンロードし、メタデータやプレイリストの内容を JSON で取得します。
+ * YouTube・SoundCloud・ニコニコ動画・Bandcamp のソースから使用します。
+ */
+
+import { spawn } from "child_process";
+
+/** yt-dlp が出力するメタデータのうち、使用する項目 */
+export interface YtDlpInfo {
+  id?: string;
+  title?: string;
+  channel?: string;
+  uploader?: string;
+  artist?: string;
+  album?: string;
+  album_artist?: string;
+  track?: string;
+  track_number?: number;
+  genre?: string;
+  /** 再生時間（秒） */
+  duration?: number;
+  entries?: YtDlpInfo[];
+}
+
+/** プレイリストに含まれる動画 */
+export interface YoutubePlaylistEntry {
+  url: string;
+  title: string;
+  channel: string;
+  /** 再生時間（秒）。取得できない場合は undefined */
+  duration?: number;
+}
+
+/**
+ * yt-dlpで音声を FLAC 形式でダウンロードします。
+ * @param url 動画・音声の URL
+ * @param outputFile 保存先のファイルパス
+ * @param onProgress ダウンロードの進捗（%）を受け取る関数
+ */
+export async function downloadWithYtDlp(
+  url: string,
+  outputFile: string,
+  onProgress?: (progress: number) => void
+): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    console.log(`[yt-dlp] Downloading: ${url} to ${outputFile}`);
+    const ytDlp = spawn(
+      "yt-dlp",
+      [
+        "-x",
+        "--force-ipv4",
+        "--no-playlist",
+        "--newline",
+        "--audio-format",
+        "flac",
+        "--output",
+        outputFile,
+        // URL がオプションとして解釈されないよう、オプションの終わりを明示する
+        "--",
+        url,
+      ],
+      {
+        stdio: ["ignore", "pipe", "ignore"],
+      }
+    );
+
+    // 進捗は "[download]  42.3% of ..." の形式で1行ずつ出力される
+    ytDlp.stdout.on("data", (data) => {
+      for (const match of data.toString().matchAll(/\[download\]\s+(\d+(?:\.\d+)?)%/g)) {
+        onProgress?.(parseFloat(match[1]));
+      }
+    });
+
+    ytDlp.on("close", (code: number) => {
+      if (code === 0) resolve();
+      else reject(new Error(`yt-dlp exited with code ${code}`));
+    });
+    ytDlp.on("error", reject);
+  });
+}
+
+/**
+ * yt-dlpで動画・音声のメタデータを取得します。
+ * @param url 動画・音声の URL
+ * @param args 追加の引数
+ * @returns メタデータ
+ */
+export async function getYtDlpInfo(url: string, args: string[] = []): Promise<YtDlpInfo> {
+  const output = await new Promise<string>((resolve, reject) => {
+    const ytDlp = spawn("yt-dlp", [...args, "-J", "--", url], {
+      stdio: ["ignore", "pipe", "ignore"],
+    });
+
+    let output = "";
+    ytDlp.stdout.on("data", (data) => {
+      output += data.toString();
+    });
+
+    ytDlp.on("close", (code: number) => {
+      if (code === 0) resolve(output);
+      else reject(new Error(`yt-dlp exited with code ${code}`));
+    });
+    ytDlp.on("error", reject);
+  });
+  return JSON.parse(output);
+}
+
+/**
+ * URL が YouTube のプレイリスト・ミックスを指しているかを判定します。
+ * 動画の URL でも list パラメーターが付いている場合はプレイリストとして扱います。
+ * @param url YouTube の URL
+ * @returns プレイリスト・ミックスの場合は true
+ */
+export function isYoutubePlaylistUrl(url: string): boolean {
+  try {
+    const { hostname, searchParams } = new URL(url);
+    const isYoutube = ["youtube.com", "youtu.be"].some(
+      (d) => hostname === d || hostname.endsWith(`.${d}`)
+    );
+    return isYoutube && searchParams.has("list");
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * yt-dlpで YouTube のプレイリスト・ミックスに含まれる動画の一覧を取得します。
+ * 動画はダウンロードせず、先頭から最大数までの URL・タイトル・チャンネル名だけを取得します。
+ * @param url プレイリスト・ミックスの URL
+ * @param maxCount 取得する動画の最大数
+ * @returns 動画の配列。取得に失敗した場合は空配列
+ */
+export async function getYoutubePlaylistEntries(
+  url: string,
+  maxCount: number
+): Promise<YoutubePlaylistEntry[]> {
+  try {
+    console.log(`[yt-dlp] Fetching playlist: ${url}`);
+    const info = await getYtDlpInfo(url, [
+      "--flat-playlist",
+      "--yes-playlist",
+      "--playlist-end",
+      String(Math.max(1, Math.floor(maxCount))),
+    ]);
+    return (info.entries ?? [])
+      .filter((e) => e.id)
+      .map((e) => ({
+        // キャッシュのファイル名が URL から決まるため、動画の URL の形式を揃える
+        url: `https://www.youtube.com/watch?v=${e.id}`,
+        title: e.title || "YouTube Video",
+        channel: e.channel || "YouTube",
+        duration: typeof e.duration === "number" ? e.duration : undefined,
+      }));
+  } catch (err) {
+    console.error("[yt-dlp] Failed to get playlist entries:", err);
+    return [];
+  }
+}
@@ -5,15 +5,32 @@
  */
 
 import { Worker } from "worker_threads";
+import type { ShuffleEngine } from "../services/shuffleService.js";
 
 export interface TrackInfo {
   [key: string]: string | number | undefined;
+  /** ファイルの絶対パス（以前のバージョンで保存されたものは dist からの相対パス） */
   _relativePath: string;
   KeepTracksInSequence?: string;
   SkipWhenShuffling?: string | number;
   Love?: string | number;
   "Disc Number"?: number;
   "Track Number"?: number;
+  _requestedBy?: string;
+  /** ダウンロード前・ダウンロード中のプレースホルダーの場合の URL */
+  _downloadUrl?: string;
+  /** ダウンロード前に分かっている再生時間（秒） */
+  _duration?: number;
+  /** ダウンロード中のプレースホルダーの場合のジョブID */
+  _pendingJobId?: string;
+  /** ダウンロード中のプレースホルダーの進捗（%） */
+  _downloadProgress?: number;
+}
+
+export interface Playlist {
+  id: string;
+  name: string;
+  tracks: TrackInfo[];
 }
 
 export interface LibraryData {
@@ -23,14 +40,161 @@ export interface LibraryData {
       [album: string]: TrackInfo[];
     };
   };
+  playlists: Playlist[];
+}
+
+/** ライブラリの差分に含めるトラックの情報 */
+export interface LibraryTrackSummary {
+  path: string;
+  trackId?: number;
+  title: string;
+  trackArtist: string;
+  /** artistMap のアーティスト名 */
+  artist: string;
+  album: string;
+}
+
+/** ライブラリを読み込み直したときの前回との差分 */
+export interface LibraryDiff {
+  version: string;
+  previousVersion: string;
+  addedTracks: LibraryTrackSummary[];
+  removedTracks: LibraryTrackSummary[];
+  /** パスは同じでタグなどが変わったトラック */
+  changedTracks: LibraryTrackSummary[];
+  addedAlbums: { artist: string; album: string }[];
+  removedAlbums: { artist: string; album: string }[];
+  /** 収録トラックや曲順、トラックの情報が変わったアルバム */
+  changedAlbums: { artist: string; album: string }[];
+  playlistsChanged: boolean;
+}
+
+/** ライブラリの健全性チェックで問題が見つかったトラック */
+export interface LibraryHealthIssue {
+  path: string;
+  trackId?: number;
+  name: string;
+  artist: string;
+  album: string;
+  /** ffprobe のエラーなどの詳細 */
+  detail?: string;
+}
+
+/** ライブラリの読み込み時に作成する健全性レポート */
+export interface LibraryHealthReport {
+  checkedAt: number;
+  totalTracks: number;
+  /** ファイルが存在しないトラック */
+  missing: LibraryHealthIssue[];
+  /** ffprobe で音声として読み込めないトラック */
+  undecodable: LibraryHealthIssue[];
+  /** アルバム、またはアーティストのタグがないトラック */
+  untagged: LibraryHealthIssue[];
+  /** 埋め込みのカバー画像があるトラックが1つもないアルバム */
+  noCover: { artist: string; album: string; trackCount: number }[];
+}
+
+export interface ShuffleSettings {
+  historySize: number;
+  artistHistorySize: number;
+  ratingWeight: number;
+  playCountWeight: number;
+  loveWeight: number;
+  /** true の場合、健全性チェックでファイルがない・読み込めないとされたトラックを選ばない */
+  excludeBrokenTracks: boolean;
+}
+
+export interface PermissionSettings {
+  allowedRoleIds: string[];
+}
+
+export interface VoteSkipSettings {
+  enabled: boolean;
+  /** スキップに必要な投票数のリスナー数に対する割合 */
+  threshold: number;
+}
+
+/** ユーザーごとのリクエスト上限。0 の場合は制限しない */
+export interface RequestLimitSettings {
+  /** キューに入れられるリクエスト数 */
+  maxQueuedItems: number;
+  /** キューに入れられるリクエストの合計再生時間（秒） */
+  maxQueuedDuration: number;
 }
 
+export interface AudioSettings {
+  /** 再生音量（%、100 が標準） */
+  volume: number;
+  /** 曲間のクロスフェードの長さ（秒）。0 の場合は曲の終わりで次の曲に切り替える */
+  crossfadeSeconds: number;
+}
+
+export interface YoutubeSettings {
+  /** プレイリスト・ミックスの URL から追加する動画の最大数 */
+  maxPlaylistItems: number;
+}
+
+export interface GuildSettings {
+  audio: AudioSettings;
+  shuffle: ShuffleSettings;
+  permissions: PermissionSettings;
+  voteSkip: VoteSkipSettings;
+  requests: RequestLimitSettings;
+  youtube: YoutubeSettings;
+}
+
+/**
+ * API 操作に必要な権限
+ * control: Bot と同じボイスチャンネルにいる、または許可されたロールを持つ
+ * admin: 許可されたロール、またはサーバー管理権限を持つ
+ */
+export type PermissionLevel = "control" | "admin";
+
 export interface GuildState {
   currentTrack: TrackInfo[] | null;
   requestQueue: TrackInfo[];
   worker: Worker;
+  channelId: string;
+  shuffleEngine: ShuffleEngine;
   playbackStartTime?: number;
   currentTrackDuration?: number;
+  pausedAt?: number;
+  skipRequested?: boolean;
+  /** ボイスチャンネルにいる Bot 以外のユーザーID */
+  listeners: string[];
+  /** 再生中のトラックへのスキップ投票をしたユーザーID */
+  skipVotes: Set<string>;
+  /** 再生ワーカーに要求された次のトラックを決めている間は true */
+  switchingTrack?: boolean;
+  /** 再生中のトラックがリクエストか自動再生か */
+  currentSource?: PlayHistoryEntry["source"];
+  pendingResume?: {
+    tracks: TrackInfo[];
+    position: number;
+    /** 一時停止中に保存された場合は true */
+    paused: boolean;
+    source: PlayHistoryEntry["source"];
+  };
+}
+
+export interface PlayHistoryEntry {
+  tracks: TrackInfo[];
+  startedAt: number;
+  endedAt?: number;
+  skipped: boolean;
+  source: "request" | "autoplay";
+}
+
+export interface PersistedGuildState {
+  guildId: string;
+  channelId: string;
+  currentTrack: TrackInfo[] | null;
+  requestQueue: TrackInfo[];
+  position: number;
+  /** 一時停止中の場合は true。以前のバージョンで保存されたものにはない */
+  paused?: boolean;
+  /** 再生中のトラックがリクエストか自動再生か。以前のバージョンで保存されたものにはない */
+  source?: PlayHistoryEntry["source"];
 }
 
 export interface QueueItem {
@@ -41,12 +205,41 @@ export interface QueueItem {
   artist: string;
   isCurrent: boolean;
   duration?: number;
+  /** リクエストした Discord ユーザーID。自動再生の場合は undefined */
+  requestedBy?: string;
+  /** ダウンロード前・ダウンロード中のプレースホルダーの場合のジョブと進捗（%）。ダウンロード前は jobId がない */
+  download?: {
+    jobId?: string;
+    progress: number;
+  };
 }
 
 export interface PlaybackStatus {
   guildId: string;
   isPlaying: boolean;
+  isPaused: boolean;
   currentTime: number;
   totalTime: number;
+  /** 再生音量（%） */
+  volume: number;
   currentTrack?: QueueItem;
+  /** 投票スキップが有効な場合の投票状況 */
+  skipVotes?: {
+    votes: number;
+    required: number;
+  };
+}
+
+export interface HistoryItem {
+  index: number;
+  tracks: {
+    title: string;
+    album: string;
+    albumArtist: string;
+    artist: string;
+  }[];
+  startedAt: number;
+  endedAt?: number;
+  skipped: boolean;
+  source: PlayHistoryEntry["source"];
 }
@@ -1,86 +1,43 @@
 /**
  * WebSocket通信を管理するサービスです。
  * クライアントとの双方向通信を行い、
- * 再生キューの更新情報をリアルタイムで配信します。
+ * 再生キュー・再生履歴・YouTube ダウンロード・ライブラリの更新情報をリアルタイムで配信します。
  */
 
 import { WebSocket, WebSocketServer } from "ws";
 import { Server } from "http";
-import { GuildState, QueueItem, PlaybackStatus } from "../types/index.js";
-import { parseFile } from "music-metadata";
-import path from "path";
-import { fileURLToPath } from "url";
-
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
+import { GuildState, LibraryDiff, PermissionLevel, PlaybackStatus } from "../types/index.js";
+import { getElapsedSeconds, setPlaybackVolume } from "../services/playbackService.js";
+import { makeHistoryArray } from "../services/historyService.js";
+import { makeQueueArray } from "../services/queueService.js";
+import { verifyToken } from "../services/authService.js";
+import { YoutubeJob } from "../services/youtubeJobService.js";
+import { getGuildSettings } from "../services/guildSettingsService.js";
+import { getRequiredVotes, getVoteCount } from "../services/voteSkipService.js";
 
 export class WebSocketService {
   private wss: WebSocketServer;
   private wsGuildClients = new Map<string, Set<WebSocket>>();
   private getGuildState: (guildId: string) => GuildState | undefined;
+  private checkPermission: (
+    guildId: string,
+    userId: string,
+    level: PermissionLevel
+  ) => Promise<boolean>;
   private playbackUpdateInterval: NodeJS.Timeout | null = null;
 
-  constructor(server: Server, getGuildState: (guildId: string) => GuildState | undefined) {
+  constructor(
+    server: Server,
+    getGuildState: (guildId: string) => GuildState | undefined,
+    checkPermission: (guildId: string, userId: string, level: PermissionLevel) => Promise<boolean>
+  ) {
     this.wss = new WebSocketServer({ server });
     this.getGuildState = getGuildState;
+    this.checkPermission = checkPermission;
     this.setupWebSocketServer();
     this.startPlaybackUpdateTimer();
   }
 
-  private async makeQueueArray(st: GuildState | undefined | null): Promise<QueueItem[]> {
-    const arr: QueueItem[] = [];
-    if (!st) return arr;
-
-    let idx = 0;
-    if (st.currentTrack) {
-      for (const t of st.currentTrack) {
-        let duration: number | undefined;
-
-        try {
-          const filePath = path.resolve(__dirname, "../", t._relativePath);
-          const metadata = await parseFile(filePath);
-          duration = metadata.format.duration;
-        } catch (error) {
-          console.warn(`[WebSocket] Could not get duration for ${t._relativePath}:`, error);
-        }
-
-        arr.push({
-          index: idx++,
-          title: (t["Name"] as string) || "",
-          album: (t["アルバム"] as string) || "",
-          albumArtist: (t["アルバムアーティスト"] as string) || (t["アーティスト"] as string) || "",
-          artist: (t["アーティスト"] as string) || "",
-          isCurrent: true,
-          duration,
-        });
-      }
-    }
-
-    for (const t of st.requestQueue) {
-      let duration: number | undefined;
-
-      try {
-        const filePath = path.resolve(__dirname, "../", t._relativePath);
-        const metadata = await parseFile(filePath);
-        duration = metadata.format.duration;
-      } catch (error) {
-        console.warn(`[WebSocket] Could not get duration for ${t._relativePath}:`, error);
-      }
-
-      arr.push({
-        index: idx++,
-        title: (t["Name"] as string) || "",
-        album: (t["アルバム"] as string) || "",
-        albumArtist: (t["アルバムアーティスト"] as string) || (t["アーティスト"] as string) || "",
-        artist: (t["アーティスト"] as string) || "",
-        isCurrent: false,
-        duration,
-      });
-    }
-
-    return arr;
-  }
-
   private setupWebSocketServer() {
     this.wss.on("connection", async (ws, req) => {
       const url = new URL(req.url || "", `http://${req.headers.host}`);
@@ -91,13 +48,24 @@ export class WebSocketService {
         return;
       }
 
+      // ブラウザの WebSocket はヘッダーを付けられないため、トークンはクエリでも受け付ける
+      const authorization = req.headers["authorization"];
+      const token =
+        url.searchParams.get("token") ||
+        (authorization?.startsWith("Bearer ") ? authorization.slice(7) : null);
+      const payload = verifyToken(token);
+      if (!payload || payload.guildId !== guildId) {
+        ws.close(4001, "unauthorized");
+        return;
+      }
+
       if (!this.wsGuildClients.has(guildId)) {
         this.wsGuildClients.set(guildId, new Set());
       }
       this.wsGuildClients.get(guildId)!.add(ws);
 
       const st = this.getGuildState(guildId);
-      const arr = await this.makeQueueArray(st);
+      const arr = await makeQueueArray(st);
 
       const playbackStatus = this.getPlaybackStatus(guildId, st);
       ws.send(
@@ -107,12 +75,22 @@ export class WebSocketService {
           playbackStatus,
         })
       );
+      ws.send(JSON.stringify({ type: "history", data: makeHistoryArray(guildId) }));
 
-      ws.on("message", (message) => {
+      ws.on("message", async (message) => {
         try {
           const data = JSON.parse(message.toString());
           if (data.type === "ping") {
             ws.send(JSON.stringify({ type: "pong" }));
+          } else if (data.type === "getHistory") {
+            ws.send(
+              JSON.stringify({
+                type: "history",
+                data: makeHistoryArray(guildId),
+              })
+            );
+          } else if (data.type === "setVolume") {
+            await this.handleSetVolume(ws, guildId, payload.userId, Number(data.volume));
           }
         } catch (err) {
           console.error("[WebSocket] Error parsing message:", err);
@@ -128,27 +106,64 @@ export class WebSocketService {
     });
   }
 
+  /**
+   * クライアントからの音量変更を処理します。
+   * @param ws 要求したクライアント
+   * @param guildId ギルドID
+   * @param userId 要求したユーザーのID
+   * @param volume 音量（%）
+   */
+  private async handleSetVolume(
+    ws: WebSocket,
+    guildId: string,
+    userId: string,
+    volume: number
+  ): Promise<void> {
+    const st = this.getGuildState(guildId);
+    if (!st) {
+      ws.send(JSON.stringify({ type: "error", message: "Bot is not joined in this guild" }));
+      return;
+    }
+    if (!(await this.checkPermission(guildId, userId, "control"))) {
+      ws.send(JSON.stringify({ type: "error", message: "Forbidden" }));
+      return;
+    }
+    if (!setPlaybackVolume(st, guildId, volume)) {
+      ws.send(JSON.stringify({ type: "error", message: "Invalid volume" }));
+      return;
+    }
+    await this.notifyQueueUpdate(guildId);
+  }
+
   private getPlaybackStatus(guildId: string, st: GuildState | undefined): PlaybackStatus {
     if (!st || !st.currentTrack || st.currentTrack.length === 0) {
       return {
         guildId,
         isPlaying: false,
+        isPaused: false,
         currentTime: 0,
         totalTime: 0,
+        volume: getGuildSettings(guildId).audio.volume,
       };
     }
 
-    const currentTime = st.playbackStartTime
-      ? Math.floor((Date.now() - st.playbackStartTime) / 1000)
-      : 0;
+    const currentTime = Math.floor(getElapsedSeconds(st));
+    const isPaused = st.pausedAt !== undefined;
 
     const totalTime = st.currentTrackDuration || 0;
+    const settings = getGuildSettings(guildId);
+    const voteSkipSettings = settings.voteSkip;
 
     return {
       guildId,
-      isPlaying: true,
+      isPlaying: !isPaused,
+      isPaused,
       currentTime: Math.min(currentTime, totalTime),
       totalTime,
+      volume: settings.audio.volume,
+      skipVotes: voteSkipSettings.enabled
+        ? { votes: getVoteCount(st), required: getRequiredVotes(st, voteSkipSettings) }
+        : undefined,
     };
   }
 
@@ -182,7 +197,7 @@ export class WebSocketService {
 
   public async notifyQueueUpdate(guildId: string): Promise<void> {
     const st = this.getGuildState(guildId);
-    const arr = await this.makeQueueArray(st);
+    const arr = await makeQueueArray(st);
     const playbackStatus = this.getPlaybackStatus(guildId, st);
     const clients = this.wsGuildClients.get(guildId);
     if (!clients) return;
@@ -199,6 +214,48 @@ export class WebSocketService {
     }
   }
 
+  public notifyHistoryUpdate(guildId: string): void {
+    const clients = this.wsGuildClients.get(guildId);
+    if (!clients) return;
+
+    const msg = JSON.stringify({
+      type: "history",
+      data: makeHistoryArray(guildId),
+    });
+    for (const ws of clients) {
+      if (ws.readyState === ws.OPEN) {
+        ws.send(msg);
+      }
+    }
+  }
+
+  public notifyYoutubeJobUpdate(guildId: string, job: YoutubeJob): void {
+    const clients = this.wsGuildClients.get(guildId);
+    if (!clients) return;
+
+    const msg = JSON.stringify({ type: "youtubeJob", data: job });
+    for (const ws of clients) {
+      if (ws.readyState === ws.OPEN) {
+        ws.send(msg);
+      }
+    }
+  }
+
+  /**
+   * ライブラリの差分をすべてのギルドのクライアントに配信します。
+   * @param diff 前回のライブラリとの差分
+   */
+  public notifyLibraryUpdate(diff: LibraryDiff): void {
+    const msg = JSON.stringify({ type: "libraryUpdated", data: diff });
+    for (const clients of this.wsGuildClients.values()) {
+      for (const ws of clients) {
+        if (ws.readyState === ws.OPEN) {
+          ws.send(msg);
+        }
+      }
+    }
+  }
+
   public destroy(): void {
     if (this.playbackUpdateInterval) {
       clearInterval(this.playbackUpdateInterval);
@@ -19,7 +19,7 @@ export class DiscordPlayWorker {
   private client: Client;
 
   constructor() {
-    this.audioManager = new AudioManager();
+    this.audioManager = new AudioManager(workerData.volume);
     this.client = new Client({
       intents: [GatewayIntentBits.Guilds, GatewayIntentBits.GuildVoiceStates],
     });
@@ -72,6 +72,22 @@ export class MessageHandler {
         await this.handleSkip();
         break;
 
+      case "pause":
+        this.handlePause();
+        break;
+
+      case "resume":
+        this.handleResume();
+        break;
+
+      case "seek":
+        await this.handleSeek(message);
+        break;
+
+      case "volume":
+        this.handleVolume(message);
+        break;
+
       case "shutdown":
         await this.handleShutdown();
         break;
@@ -89,18 +105,27 @@ export class MessageHandler {
    */
   private handleLeave(): void {
     this.eventHandler.setLeave(true);
+    this.audioManager.cancelCrossfade();
     this.connectionManager.disconnect();
   }
 
   /**
    * 再生を開始します。
+   * クロスフェードのために次のトラックを要求していた場合は、再生中のトラックとつないで再生します。
+   * 一時停止を指定された場合は、一時停止したまま始めます。
    * @param message WorkerMessage インスタンス
    */
   private async handlePlay(message: WorkerMessage): Promise<void> {
     if (!message.data) {
       throw new Error("Play message requires track data");
     }
-    await this.audioManager.play(message.data);
+    const transition = message.transition ?? { crossfade: 0 };
+    this.audioManager.setPaused(message.paused ?? false);
+    if (this.audioManager.isCrossfadeRequested()) {
+      await this.audioManager.crossfadeTo(message.data, transition);
+      return;
+    }
+    await this.audioManager.play(message.data, undefined, message.position, transition);
   }
 
   /**
@@ -110,6 +135,42 @@ export class MessageHandler {
     this.audioManager.stop();
   }
 
+  /**
+   * 一時停止を処理します。
+   */
+  private handlePause(): void {
+    this.audioManager.pause();
+  }
+
+  /**
+   * 再開を処理します。
+   */
+  private handleResume(): void {
+    this.audioManager.resume();
+  }
+
+  /**
+   * シークを処理します。
+   * @param message WorkerMessage インスタンス
+   */
+  private async handleSeek(message: WorkerMessage): Promise<void> {
+    if (message.position === undefined) {
+      throw new Error("Seek message requires position");
+    }
+    await this.audioManager.seek(message.position);
+  }
+
+  /**
+   * 音量の変更を処理します。
+   * @param message WorkerMessage インスタンス
+   */
+  private handleVolume(message: WorkerMessage): void {
+    if (message.volume === undefined) {
+      throw new Error("Volume message requires volume");
+    }
+    this.audioManager.setVolume(message.volume);
+  }
+
   /**
    * シャットダウンを処理します。
    */
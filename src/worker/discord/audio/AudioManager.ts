@@ -4,15 +4,23 @@
  * FFMPEGプロセスの管理を行います。
  */
 
-import { createAudioPlayer, createAudioResource, AudioPlayer, StreamType } from "@discordjs/voice";
+import {
+  createAudioPlayer,
+  createAudioResource,
+  AudioPlayer,
+  AudioPlayerStatus,
+  AudioResource,
+  StreamType,
+} from "@discordjs/voice";
 import { spawn } from "child_process";
 import { TrackInfo } from "../../../types/index.js";
-import { ResourceMetadata } from "../types.js";
+import { resolveTrackPath } from "../../../services/trackPathService.js";
+import { ResourceMetadata, TransitionOptions } from "../types.js";
 import { parentPort } from "worker_threads";
 import { promisify } from "util";
-import { exec } from "child_process";
+import { execFile } from "child_process";
 
-const execAsync = promisify(exec);
+const execFileAsync = promisify(execFile);
 
 /**
  * オーディオ再生を管理するクラス
@@ -20,6 +28,18 @@ const execAsync = promisify(exec);
 export class AudioManager {
   private audioPlayer: AudioPlayer;
   private metadata: ResourceMetadata | null = null;
+  private resource: AudioResource | null = null;
+  private volume: number;
+
+  // クロスフェード設定
+  private transition: TransitionOptions = { crossfade: 0 };
+  private startOffset = 0;
+  private crossfadeTimer: NodeJS.Timeout | null = null;
+  private crossfadeRequested = false;
+  private readonly CROSSFADE_CHECK_INTERVAL = 250;
+
+  // 一時停止中に始めたリソースも一時停止したままにする
+  private paused = false;
 
   // バッファリング設定
   private readonly BUFFER_SIZE = 100 * 1024 * 1024;
@@ -28,9 +48,11 @@ export class AudioManager {
 
   /**
    * AudioManager のインスタンスを作成します。
+   * @param volume 再生音量（%、100 が標準）
    */
-  constructor() {
+  constructor(volume: number = 100) {
     this.audioPlayer = createAudioPlayer();
+    this.volume = volume;
   }
 
   /**
@@ -44,14 +66,16 @@ export class AudioManager {
   /**
    * FFMPEGプロセスを終了させます。
    * 既に終了している場合は何もしません。
+   * @param proc 終了させるプロセス（省略時は現在再生中のプロセス）
    */
-  async killFfmpegProcess(): Promise<void> {
-    if (this.metadata?.ffmpegProcess && this.metadata.ffmpegProcess.exitCode === null) {
+  async killFfmpegProcess(
+    proc: ResourceMetadata["ffmpegProcess"] | undefined = this.metadata?.ffmpegProcess
+  ): Promise<void> {
+    if (proc && proc.exitCode === null) {
       parentPort?.postMessage({
         event: "log",
         message: "Killing FFMPEG process...",
       });
-      const proc = this.metadata.ffmpegProcess;
 
       try {
         // タイムアウト付きでプロセスを終了
@@ -112,14 +136,90 @@ export class AudioManager {
    * 再生を開始します。
    * @param trackObj 再生するトラック情報の配列
    * @param bitrate ビットレート（デフォルトは256kbps）
+   * @param startOffset 再生開始位置（秒、トラック群の先頭からの位置）
+   * @param transition 次のトラックへの切り替え設定（省略時は現在の設定を引き継ぐ）
    */
-  async play(trackObj: TrackInfo[], bitrate: number = 256 * 1024): Promise<void> {
+  async play(
+    trackObj: TrackInfo[],
+    bitrate: number = 256 * 1024,
+    startOffset: number = 0,
+    transition?: TransitionOptions
+  ): Promise<void> {
     if (!trackObj.length) {
       throw new Error("No tracks provided.");
     }
 
-    const args = await this.buildFfmpegArgs(trackObj, bitrate);
+    const args = await this.buildFfmpegArgs(trackObj, bitrate, startOffset);
+    if (transition) {
+      this.transition = transition;
+    }
+    this.startResource(args, trackObj, startOffset);
+  }
+
+  /**
+   * 再生中のトラック群の残りと次のトラック群をクロスフェードでつないで再生します。
+   * 再生中のトラック群の現在位置から ffmpeg を起動し直すため、再生は途切れません。
+   * @param trackObj 次に再生するトラック情報の配列
+   * @param transition 次のトラックへの切り替え設定
+   * @param bitrate ビットレート（デフォルトは256kbps）
+   */
+  async crossfadeTo(
+    trackObj: TrackInfo[],
+    transition: TransitionOptions,
+    bitrate: number = 256 * 1024
+  ): Promise<void> {
+    const previous = this.metadata;
+    const status = this.audioPlayer.state.status;
+    this.crossfadeRequested = false;
+
+    // 一時停止中でもつなぎ方は変えず、つないだ後のリソースを一時停止したままにする
+    const active = status === AudioPlayerStatus.Playing || status === AudioPlayerStatus.Paused;
+    if (!previous || !this.transition.duration || !active) {
+      await this.play(trackObj, bitrate, 0, transition);
+      return;
+    }
+
+    const position = this.getPosition();
+    const remaining = this.transition.duration - position;
+    // フェードの長さはクロスフェードの設定を上限とし、次のトラック群の長さも超えないようにする
+    const fadeDuration = Math.min(
+      remaining,
+      this.transition.crossfade,
+      transition.duration ?? this.transition.crossfade
+    );
+    if (fadeDuration <= 0) {
+      await this.play(trackObj, bitrate, 0, transition);
+      return;
+    }
+
+    const args = await this.buildCrossfadeArgs(
+      previous.trackInfo,
+      position,
+      trackObj,
+      fadeDuration,
+      bitrate
+    );
+    this.transition = transition;
+    // 次のトラック群はフェードの開始位置から始まるため、その前の部分を負の開始位置として扱う
+    this.startResource(args, trackObj, fadeDuration - remaining);
+    await this.killFfmpegProcess(previous.ffmpegProcess);
+  }
+
+  /**
+   * クロスフェードのために次のトラックを要求済みかどうかを取得します。
+   * @returns 要求済みで、まだ次のトラックを受け取っていない場合は true
+   */
+  isCrossfadeRequested(): boolean {
+    return this.crossfadeRequested;
+  }
 
+  /**
+   * FFMPEGを起動して、その出力の再生を開始します。
+   * @param args FFMPEGの引数
+   * @param trackObj 再生するトラック情報の配列
+   * @param startOffset 出力の先頭に対応するトラック群の先頭からの位置（秒）
+   */
+  private startResource(args: string[], trackObj: TrackInfo[], startOffset: number): void {
     const ffmpegProcess = spawn("ffmpeg", args, {
       stdio: ["ignore", "pipe", "ignore"],
     });
@@ -140,51 +240,200 @@ export class AudioManager {
       }
     });
 
+    // 再生中に音量を変更できるよう、inlineVolume を有効にする
     const resource = createAudioResource(ffmpegProcess.stdout, {
       inputType: StreamType.OggOpus,
-      inlineVolume: false,
+      inlineVolume: true,
     });
+    resource.volume?.setVolume(this.volume / 100);
 
     this.audioPlayer.play(resource);
+    this.resource = resource;
+    if (this.paused) {
+      this.pauseWhenPlaying();
+    }
 
     this.metadata = {
       trackInfo: trackObj,
       ffmpegProcess,
     };
+    this.startOffset = startOffset;
+    this.startCrossfadeTimer();
+  }
+
+  /**
+   * 再生中のトラック群の先頭からの再生位置を取得します。
+   * @returns 再生位置（秒）
+   */
+  private getPosition(): number {
+    return this.startOffset + (this.resource?.playbackDuration ?? 0) / 1000;
   }
+
+  /**
+   * 残り時間がクロスフェードの長さを下回ったら次のトラックを要求するタイマーを開始します。
+   * 一時停止中は再生位置が進まないため、要求も行われません。
+   */
+  private startCrossfadeTimer(): void {
+    this.stopCrossfadeTimer();
+    this.crossfadeRequested = false;
+
+    // 再生時間がクロスフェードの2倍以下の短いトラックではクロスフェードしない
+    const { crossfade, duration } = this.transition;
+    if (crossfade <= 0 || !duration || duration <= crossfade * 2) return;
+
+    this.crossfadeTimer = setInterval(() => {
+      if (duration - this.getPosition() > crossfade) return;
+
+      this.stopCrossfadeTimer();
+      this.crossfadeRequested = true;
+      parentPort?.postMessage({ event: "requestNext", crossfade: true });
+    }, this.CROSSFADE_CHECK_INTERVAL);
+  }
+
+  /**
+   * クロスフェードのタイマーを停止します。
+   */
+  private stopCrossfadeTimer(): void {
+    if (this.crossfadeTimer) {
+      clearInterval(this.crossfadeTimer);
+      this.crossfadeTimer = null;
+    }
+  }
+  /**
+   * 現在再生中のトラック群を指定した位置から再生し直します。
+   * クロスフェードのために次のトラックを要求した後は、メインスレッドで再生中のトラックが
+   * 次のトラックに切り替わっているためシークしません。
+   * @param position 再生開始位置（秒、トラック群の先頭からの位置）
+   */
+  async seek(position: number): Promise<void> {
+    if (!this.metadata) {
+      throw new Error("Nothing is playing.");
+    }
+    if (this.crossfadeRequested) {
+      throw new Error("Cannot seek while switching to the next track.");
+    }
+
+    const previousProcess = this.metadata.ffmpegProcess;
+    // 一時停止中にシークした場合は再生を再開する
+    this.paused = false;
+    await this.play(this.metadata.trackInfo, undefined, position);
+    await this.killFfmpegProcess(previousProcess);
+  }
+
   /**
    * FFMPEGの引数を生成します。
    * @param trackObj 再生するトラック情報の配列
    * @param bitrate ビットレート（デフォルトは256kbps）
+   * @param startOffset 再生開始位置（秒、トラック群の先頭からの位置）
    * @returns FFMPEGの引数の配列
    */
-  private async buildFfmpegArgs(trackObj: TrackInfo[], bitrate: number): Promise<string[]> {
+  private async buildFfmpegArgs(
+    trackObj: TrackInfo[],
+    bitrate: number,
+    startOffset: number
+  ): Promise<string[]> {
     const args: string[] = [];
 
-    // リプレイゲインのアルバム値を取得（FLACファイルから直接読み取り、あれば使用、なければ0）
-    let albumGain = 0;
-    if (trackObj.length > 0) {
-      albumGain = await this.getAlbumGainFromFlac(trackObj[0]._relativePath.slice(3));
-    }
-
-    // 入力ファイルを追加
-    trackObj.forEach((track) => {
-      args.push("-i", track._relativePath.slice(3));
-    });
-
-    // ボリューム調整値を計算（基本の-dB + アルバムゲイン）
-    const volumeAdjustment = -18 + albumGain;
+    const volumeAdjustment = await this.getVolumeAdjustment(trackObj);
+    const inputCount = await this.pushInputArgs(args, trackObj, startOffset);
 
     // フィルターとマッピングを設定
-    if (trackObj.length === 1) {
+    if (inputCount === 1) {
       args.push("-af", `volume=${volumeAdjustment}dB`, "-map", "0:a");
     } else {
       const filter =
-        trackObj.map((_, index) => `[${index}:a:0]`).join("") +
-        `concat=n=${trackObj.length}:v=0:a=1[outa];[outa]volume=${volumeAdjustment}dB[out]`;
+        Array.from({ length: inputCount }, (_, index) => `[${index}:a:0]`).join("") +
+        `concat=n=${inputCount}:v=0:a=1[outa];[outa]volume=${volumeAdjustment}dB[out]`;
       args.push("-filter_complex", filter, "-map", "[out]");
     }
 
+    this.pushEncodingArgs(args, bitrate);
+    return args;
+  }
+
+  /**
+   * 2つのトラック群をクロスフェードでつなぐFFMPEGの引数を生成します。
+   * それぞれのトラック群の中は間を空けずに連結し、音量もトラック群ごとに調整します。
+   * @param previous 再生中のトラック情報の配列
+   * @param previousOffset 再生中のトラック群の再生位置（秒）
+   * @param next 次に再生するトラック情報の配列
+   * @param fadeDuration クロスフェードの長さ（秒）
+   * @param bitrate ビットレート
+   * @returns FFMPEGの引数の配列
+   */
+  private async buildCrossfadeArgs(
+    previous: TrackInfo[],
+    previousOffset: number,
+    next: TrackInfo[],
+    fadeDuration: number,
+    bitrate: number
+  ): Promise<string[]> {
+    const args: string[] = [];
+
+    const previousVolume = await this.getVolumeAdjustment(previous);
+    const nextVolume = await this.getVolumeAdjustment(next);
+    const previousCount = await this.pushInputArgs(args, previous, previousOffset);
+    const nextCount = await this.pushInputArgs(args, next, 0);
+
+    const concat = (start: number, count: number, volume: number, label: string) =>
+      Array.from({ length: count }, (_, index) => `[${start + index}:a:0]`).join("") +
+      `concat=n=${count}:v=0:a=1,volume=${volume}dB[${label}]`;
+    const filter =
+      concat(0, previousCount, previousVolume, "prev") +
+      ";" +
+      concat(previousCount, nextCount, nextVolume, "next") +
+      `;[prev][next]acrossfade=d=${fadeDuration.toFixed(3)}:c1=tri:c2=tri[out]`;
+    args.push("-filter_complex", filter, "-map", "[out]");
+
+    this.pushEncodingArgs(args, bitrate);
+    return args;
+  }
+
+  /**
+   * トラック群の音量調整値を求めます。
+   * @param trackObj トラック情報の配列
+   * @returns 音量調整値（dB、基本の-dB + アルバムゲイン）
+   */
+  private async getVolumeAdjustment(trackObj: TrackInfo[]): Promise<number> {
+    // リプレイゲインのアルバム値を取得（FLACファイルから直接読み取り、あれば使用、なければ0）
+    let albumGain = 0;
+    if (trackObj.length > 0) {
+      albumGain = await this.getAlbumGainFromFlac(resolveTrackPath(trackObj[0]));
+    }
+    return -18 + albumGain;
+  }
+
+  /**
+   * トラック群の入力ファイルの引数を追加します。
+   * 開始位置を含むトラックを求め、それより前のトラックは入力から外します。
+   * @param args 引数を追加する配列
+   * @param trackObj トラック情報の配列
+   * @param startOffset 再生開始位置（秒、トラック群の先頭からの位置）
+   * @returns 追加した入力ファイルの数
+   */
+  private async pushInputArgs(
+    args: string[],
+    trackObj: TrackInfo[],
+    startOffset: number
+  ): Promise<number> {
+    const { trackIndex, offset } = await this.resolveStartOffset(trackObj, startOffset);
+    const inputs = trackObj.slice(trackIndex);
+
+    inputs.forEach((track, index) => {
+      if (index === 0 && offset > 0) {
+        args.push("-ss", offset.toFixed(3));
+      }
+      args.push("-i", resolveTrackPath(track));
+    });
+    return inputs.length;
+  }
+
+  /**
+   * エンコーディングと出力の引数を追加します。
+   * @param args 引数を追加する配列
+   * @param bitrate ビットレート
+   */
+  private pushEncodingArgs(args: string[], bitrate: number): void {
     // エンコーディング設定（バッファリング強化）
     const frameDuration = 20;
     args.push(
@@ -208,17 +457,101 @@ export class AudioManager {
       "opus",
       "pipe:1"
     );
+  }
 
-    return args;
+  /**
+   * トラック群の先頭からの再生位置を、対象トラックのインデックスとトラック内の位置に変換します。
+   * @param trackObj 再生するトラック情報の配列
+   * @param startOffset 再生開始位置（秒、トラック群の先頭からの位置）
+   * @returns 対象トラックのインデックスとトラック内の位置（秒）
+   */
+  private async resolveStartOffset(
+    trackObj: TrackInfo[],
+    startOffset: number
+  ): Promise<{ trackIndex: number; offset: number }> {
+    if (startOffset <= 0 || trackObj.length === 1) {
+      return { trackIndex: 0, offset: Math.max(0, startOffset) };
+    }
+
+    let remaining = startOffset;
+    for (let i = 0; i < trackObj.length - 1; i++) {
+      const duration = await this.getDuration(resolveTrackPath(trackObj[i]));
+      if (remaining < duration) {
+        return { trackIndex: i, offset: remaining };
+      }
+      remaining -= duration;
+    }
+    return { trackIndex: trackObj.length - 1, offset: remaining };
   }
 
   /**
    * 再生を停止します。
+   * クロスフェードのために次のトラックを要求済みの場合、その要求は取り消さずに残します。
+   * メインスレッドは既に次のトラック群をキューから取り出しているため、
+   * 届いた play をスキップ後のトラックとして再生し、次のトラックを重ねて要求しないようにします。
    */
   stop(): void {
+    this.stopCrossfadeTimer();
     this.audioPlayer.stop();
   }
 
+  /**
+   * クロスフェードのための次のトラックの要求を取り消します。
+   */
+  cancelCrossfade(): void {
+    this.stopCrossfadeTimer();
+    this.crossfadeRequested = false;
+  }
+
+  /**
+   * 再生を一時停止します。
+   * @returns 一時停止できた場合は true
+   */
+  pause(): boolean {
+    this.paused = true;
+    return this.audioPlayer.pause();
+  }
+
+  /**
+   * 一時停止中の再生を再開します。
+   * @returns 再開できた場合は true
+   */
+  resume(): boolean {
+    this.paused = false;
+    return this.audioPlayer.unpause();
+  }
+
+  /**
+   * 次に始めるリソースを一時停止した状態で始めるかを設定します。
+   * @param paused true の場合は一時停止したまま始める
+   */
+  setPaused(paused: boolean): void {
+    this.paused = paused;
+  }
+
+  /**
+   * 再生が始まったらすぐに一時停止します。
+   * 始めたばかりのリソースはバッファリング中で一時停止できないため、再生状態になるのを待ちます。
+   */
+  private pauseWhenPlaying(): void {
+    if (this.audioPlayer.state.status === AudioPlayerStatus.Playing) {
+      this.audioPlayer.pause();
+      return;
+    }
+    this.audioPlayer.once(AudioPlayerStatus.Playing, () => {
+      if (this.paused) this.audioPlayer.pause();
+    });
+  }
+
+  /**
+   * 再生音量を変更します。再生中のリソースにも即座に反映されます。
+   * @param volume 再生音量（%、100 が標準）
+   */
+  setVolume(volume: number): void {
+    this.volume = volume;
+    this.resource?.volume?.setVolume(volume / 100);
+  }
+
   /**
    * 現在のメタデータを取得します。
    * @returns 現在のメタデータ
@@ -227,6 +560,33 @@ export class AudioManager {
     return this.metadata;
   }
 
+  /**
+   * 音声ファイルの長さを取得します。
+   * @param filePath 音声ファイルのパス
+   * @returns 長さ（秒）、取得できない場合は0
+   */
+  private async getDuration(filePath: string): Promise<number> {
+    try {
+      // パスをシェルで解釈させないよう、引数の配列で渡す
+      const { stdout } = await execFileAsync("ffprobe", [
+        "-v",
+        "quiet",
+        "-show_format",
+        "-print_format",
+        "json",
+        filePath,
+      ]);
+      const metadata = JSON.parse(stdout);
+      return parseFloat(metadata.format?.duration) || 0;
+    } catch (error) {
+      parentPort?.postMessage({
+        event: "log",
+        message: `Failed to read duration from ${filePath}: ${error}`,
+      });
+      return 0;
+    }
+  }
+
   /**
    * FLACファイルからリプレイゲインのアルバム値を取得します。
    * @param filePath FLACファイルのパス
@@ -234,9 +594,14 @@ export class AudioManager {
    */
   private async getAlbumGainFromFlac(filePath: string): Promise<number> {
     try {
-      const { stdout } = await execAsync(
-        `ffprobe -v quiet -show_format -print_format json "${filePath}"`
-      );
+      const { stdout } = await execFileAsync("ffprobe", [
+        "-v",
+        "quiet",
+        "-show_format",
+        "-print_format",
+        "json",
+        filePath,
+      ]);
       const metadata = JSON.parse(stdout);
 
       if (metadata.format && metadata.format.tags) {
@@ -61,6 +61,7 @@ export class EventHandler {
         event: "log",
         message: "Voice connection is ready",
       });
+      this.postListeners();
       parentPort?.postMessage({ event: "requestNext" });
     });
 
@@ -90,6 +91,8 @@ export class EventHandler {
     audioPlayer.on(AudioPlayerStatus.Idle, async () => {
       if (this.leave) return;
       await this.audioManager.killFfmpegProcess();
+      // クロスフェードのために次のトラックを要求済みの場合は、スキップで停止したときも含めてその応答を待つ
+      if (this.audioManager.isCrossfadeRequested()) return;
       parentPort?.postMessage({ event: "requestNext" });
     });
   }
@@ -117,16 +120,35 @@ export class EventHandler {
         return;
       }
 
-      const nonBot = (channel.members as Collection<string, GuildMember>).filter(
-        (m) => !m.user.bot
-      );
+      const nonBot = this.getListeners();
       if (nonBot.size === 0) {
         parentPort?.postMessage({
           event: "log",
           message: "No non-bot => leaving",
         });
         this.leaveVoiceChannel();
+        return;
       }
+      this.postListeners();
+    });
+  }
+
+  /**
+   * ボイスチャンネルにいる Bot 以外のメンバーを取得します。
+   * @returns Bot 以外のメンバー
+   */
+  private getListeners(): Collection<string, GuildMember> {
+    const channel = this.connectionManager.getChannel();
+    return (channel.members as Collection<string, GuildMember>).filter((m) => !m.user.bot);
+  }
+
+  /**
+   * ボイスチャンネルにいるリスナーのユーザーIDをメインスレッドに通知します。
+   */
+  private postListeners(): void {
+    parentPort?.postMessage({
+      event: "listeners",
+      listeners: [...this.getListeners().keys()],
     });
   }
 
@@ -14,15 +14,35 @@ export interface ResourceMetadata {
   ffmpegProcess: ChildProcessByStdio<null, internal.Readable, null>;
 }
 
+/** 次のトラックへの切り替え設定 */
+export interface TransitionOptions {
+  /** クロスフェードの長さ（秒）。0 の場合はクロスフェードしない */
+  crossfade: number;
+  /** 再生するトラック群の合計再生時間（秒） */
+  duration?: number;
+}
+
 /** ワーカーに送信するメッセージ */
 export interface WorkerMessage {
-  event: "leave" | "play" | "skip" | "shutdown";
+  event: "leave" | "play" | "skip" | "pause" | "resume" | "seek" | "volume" | "shutdown";
   data?: TrackInfo[];
+  /** play / seek 時の再生開始位置（秒） */
+  position?: number;
+  /** volume 時の音量（%） */
+  volume?: number;
+  /** play 時の次のトラックへの切り替え設定 */
+  transition?: TransitionOptions;
+  /** play 時に一時停止したまま始める場合は true */
+  paused?: boolean;
 }
 
 /** ワーカーからの応答 */
 export interface WorkerResponse {
-  event: "log" | "error" | "requestNext" | "disconnect";
+  event: "log" | "error" | "requestNext" | "disconnect" | "listeners";
   message?: string;
   error?: string;
+  /** listeners 時のボイスチャンネルにいる Bot 以外のユーザーID */
+  listeners?: string[];
+  /** requestNext 時、クロスフェードのために再生中に要求した場合は true */
+  crossfade?: boolean;
 }
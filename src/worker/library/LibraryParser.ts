@@ -1,49 +1,61 @@
 /**
  * 音楽ライブラリのパースを行うメインクラスです。
- * iTunes Music Library.xml ファイルを読み込み、
- * トラック情報を処理してライブラリデータを生成します。
+ * iTunes Music Library.xml ファイル、または音楽フォルダのスキャン結果から
+ * トラック情報を処理してライブラリデータと健全性レポートを生成します。
  */
 
 import path from "path";
 import { fileURLToPath } from "url";
-import { LibraryData } from "../../types/index.js";
+import { LibraryData, LibraryHealthReport, Playlist, TrackInfo } from "../../types/index.js";
+import { HealthChecker } from "./checkers/HealthChecker.js";
 import { XmlParser } from "./parsers/XmlParser.js";
 import { TrackProcessor } from "./processors/TrackProcessor.js";
+import { DirectoryScanner } from "./scanners/DirectoryScanner.js";
 import { LibraryParseResult, LibraryParserConfig } from "./types.js";
 import { PathConverter } from "./utils/PathConverter.js";
 
 export class LibraryParser {
   private config: LibraryParserConfig;
   private xmlParser: XmlParser;
+  private directoryScanner: DirectoryScanner;
   private trackProcessor: TrackProcessor;
+  private healthChecker: HealthChecker;
 
   constructor(config?: Partial<LibraryParserConfig>) {
     const __filename = fileURLToPath(import.meta.url);
     const __dirname = path.dirname(__filename);
     const defaultXmlPath = path.join(__dirname, "../../../iTunes Music Library.xml");
-    const defaultPathPrefix = PathConverter.getDefaultPathPrefix();
+    const defaultDirectory = path.join(__dirname, "../../../../Music");
+    const defaultScanCachePath = path.join(__dirname, "../../../library_scan_cache.json");
+    const defaultHealthCachePath = path.join(__dirname, "../../../library_health_cache.json");
 
     this.config = {
+      provider: config?.provider || "itunes",
       xmlPath: config?.xmlPath || defaultXmlPath,
-      pathPrefix: config?.pathPrefix || defaultPathPrefix,
+      pathMappings: config?.pathMappings || [],
+      directory: config?.directory || defaultDirectory,
+      scanCachePath: config?.scanCachePath || defaultScanCachePath,
+      healthCachePath: config?.healthCachePath || defaultHealthCachePath,
     };
 
     this.xmlParser = new XmlParser(this.config.xmlPath);
-    const pathConverter = new PathConverter(this.config.pathPrefix);
+    this.directoryScanner = new DirectoryScanner(this.config.directory, this.config.scanCachePath);
+    const pathConverter = new PathConverter(this.config.pathMappings);
     this.trackProcessor = new TrackProcessor(pathConverter);
+    this.healthChecker = new HealthChecker(this.config.healthCachePath);
   }
 
   async parseLibrary(): Promise<LibraryParseResult> {
     try {
-      this.xmlParser.validateXmlFile();
-      const allTracks = this.xmlParser.parseXml();
-      const validTracks = this.trackProcessor.processValidTracks(allTracks);
+      const { validTracks, playlists } =
+        this.config.provider === "directory" ? await this.scanDirectory() : this.parseXmlLibrary();
       const artistMap = this.trackProcessor.createArtistMap(validTracks);
       this.trackProcessor.sortArtistMap(artistMap);
 
       const result: LibraryData = {
         allTracksCount: validTracks.length,
         artistMap,
+        playlists,
       };
 
       return { success: true, data: result };
@@ -56,6 +68,34 @@ export class LibraryParser {
     }
   }
 
+  /**
+   * ライブラリのトラックの健全性レポートを作成
+   * 全トラックを ffprobe で調べるため時間がかかる。ライブラリデータを送った後に実行する
+   */
+  async checkHealth(artistMap: LibraryData["artistMap"]): Promise<LibraryHealthReport> {
+    return this.healthChecker.check(artistMap);
+  }
+
+  /**
+   * iTunes Music Library.xml からトラックとプレイリストを読み込む
+   */
+  private parseXmlLibrary(): { validTracks: TrackInfo[]; playlists: Playlist[] } {
+    this.xmlParser.validateXmlFile();
+    const { tracks: allTracks, playlists: rawPlaylists } = this.xmlParser.parseXml();
+    const validTracks = this.trackProcessor.processValidTracks(allTracks);
+    const playlists = this.trackProcessor.resolvePlaylists(rawPlaylists, validTracks);
+    return { validTracks, playlists };
+  }
+
+  /**
+   * 音楽フォルダをスキャンしてトラックを読み込む
+   * フォルダにはプレイリストがないため、プレイリストは空になる
+   */
+  private async scanDirectory(): Promise<{ validTracks: TrackInfo[]; playlists: Playlist[] }> {
+    const validTracks = await this.directoryScanner.scan();
+    return { validTracks, playlists: [] };
+  }
+
   /**
    * 設定を取得
    */
@@ -70,7 +110,9 @@ export class LibraryParser {
     this.config = { ...this.config, ...newConfig };
 
     this.xmlParser = new XmlParser(this.config.xmlPath);
-    const pathConverter = new PathConverter(this.config.pathPrefix);
+    this.directoryScanner = new DirectoryScanner(this.config.directory, this.config.scanCachePath);
+    const pathConverter = new PathConverter(this.config.pathMappings);
     this.trackProcessor = new TrackProcessor(pathConverter);
+    this.healthChecker = new HealthChecker(this.config.healthCachePath);
   }
 }
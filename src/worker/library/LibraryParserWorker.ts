@@ -1,6 +1,6 @@
 import { parentPort, workerData } from "worker_threads";
 import { LibraryParser } from "./LibraryParser.js";
-import { LibraryParserConfig } from "./types.js";
+import { LibraryHealthResult, LibraryParserConfig } from "./types.js";
 
 export class LibraryParserWorker {
   private parser: LibraryParser;
@@ -12,8 +12,20 @@ export class LibraryParserWorker {
     if (workerData?.xmlPath) {
       config.xmlPath = workerData.xmlPath;
     }
-    if (workerData?.pathPrefix) {
-      config.pathPrefix = workerData.pathPrefix;
+    if (workerData?.pathMappings) {
+      config.pathMappings = workerData.pathMappings;
+    }
+    if (workerData?.provider) {
+      config.provider = workerData.provider;
+    }
+    if (workerData?.directory) {
+      config.directory = workerData.directory;
+    }
+    if (workerData?.scanCachePath) {
+      config.scanCachePath = workerData.scanCachePath;
+    }
+    if (workerData?.healthCachePath) {
+      config.healthCachePath = workerData.healthCachePath;
     }
 
     this.parser = new LibraryParser(config);
@@ -21,6 +33,7 @@ export class LibraryParserWorker {
 
   /**
    * ライブラリ解析を実行
+   * 健全性チェックで待たせないよう、ライブラリデータを先に送ってから健全性レポートを送る
    */
   async run(): Promise<void> {
     try {
@@ -31,6 +44,17 @@ export class LibraryParserWorker {
       } else {
         console.log("Library parsing completed:", result);
       }
+      if (!result.success || !result.data) return;
+
+      const healthResult: LibraryHealthResult = {
+        success: true,
+        health: await this.parser.checkHealth(result.data.artistMap),
+      };
+      if (parentPort) {
+        parentPort.postMessage(healthResult);
+      } else {
+        console.log("Library health check completed:", healthResult);
+      }
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : String(error);
       const result = {
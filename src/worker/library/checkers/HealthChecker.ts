@@ -0,0 +1,204 @@
+import fs from "fs";
+import { spawn } from "child_process";
+import {
+  LibraryData,
+  LibraryHealthIssue,
+  LibraryHealthReport,
+  TrackInfo,
+} from "../../../types/index.js";
+import { ProbeCache, ProbeCacheEntry } from "../types.js";
+
+/** 同時に実行する ffprobe の数 */
+const PROBE_CONCURRENCY = 4;
+
+export class HealthChecker {
+  private cachePath: string;
+
+  constructor(cachePath: string) {
+    this.cachePath = cachePath;
+  }
+
+  /**
+   * ライブラリのトラックを調べて健全性レポートを作成
+   * 前回から更新日時とサイズが変わっていないファイルはキャッシュの ffprobe の結果を使う
+   */
+  async check(artistMap: LibraryData["artistMap"]): Promise<LibraryHealthReport> {
+    const cache = this.loadCache();
+    const nextCache: ProbeCache = {};
+    const report: LibraryHealthReport = {
+      checkedAt: Date.now(),
+      totalTracks: 0,
+      missing: [],
+      undecodable: [],
+      untagged: [],
+      noCover: [],
+    };
+
+    const tracks = Object.values(artistMap).flatMap((albums) => Object.values(albums).flat());
+    report.totalTracks = tracks.length;
+
+    const probes = new Map<string, ProbeCacheEntry | null>();
+    let index = 0;
+    const runNext = async (): Promise<void> => {
+      while (index < tracks.length) {
+        const filePath = tracks[index++]._relativePath;
+        if (probes.has(filePath)) continue;
+        probes.set(filePath, null);
+        probes.set(filePath, await this.probeWithCache(filePath, cache));
+      }
+    };
+    await Promise.all(Array.from({ length: PROBE_CONCURRENCY }, runNext));
+
+    for (const [filePath, probe] of probes) {
+      if (probe) nextCache[filePath] = probe;
+    }
+    this.saveCache(nextCache);
+
+    for (const track of tracks) {
+      const probe = probes.get(track._relativePath);
+      if (!probe) {
+        report.missing.push(this.toIssue(track));
+      } else if (!probe.decodable) {
+        report.undecodable.push(this.toIssue(track, probe.error));
+      }
+      if (!track["アルバム"] || !(track["アーティスト"] || track["アルバムアーティスト"])) {
+        report.untagged.push(this.toIssue(track));
+      }
+    }
+
+    for (const [artist, albums] of Object.entries(artistMap)) {
+      for (const [album, albumTracks] of Object.entries(albums)) {
+        const albumProbes = albumTracks
+          .map((track) => probes.get(track._relativePath))
+          .filter((probe) => probe?.decodable);
+        // 読み込めるトラックがないアルバムはカバー画像の有無がわからないため含めない
+        if (albumProbes.length > 0 && !albumProbes.some((probe) => probe?.hasCover)) {
+          report.noCover.push({ artist, album, trackCount: albumTracks.length });
+        }
+      }
+    }
+
+    console.log(
+      `[HealthChecker] Checked ${tracks.length} tracks: ${report.missing.length} missing, ` +
+        `${report.undecodable.length} undecodable, ${report.untagged.length} untagged, ` +
+        `${report.noCover.length} albums without cover`
+    );
+    return report;
+  }
+
+  /**
+   * ファイルを ffprobe で調べる
+   * ファイルが存在しない場合は null
+   */
+  private async probeWithCache(
+    filePath: string,
+    cache: ProbeCache
+  ): Promise<ProbeCacheEntry | null> {
+    let stat: fs.Stats;
+    try {
+      stat = await fs.promises.stat(filePath);
+    } catch {
+      return null;
+    }
+    if (!stat.isFile()) return null;
+
+    const cached = cache[filePath];
+    if (cached && cached.mtimeMs === stat.mtimeMs && cached.size === stat.size) {
+      return cached;
+    }
+
+    return { mtimeMs: stat.mtimeMs, size: stat.size, ...(await this.probe(filePath)) };
+  }
+
+  /**
+   * 音声ストリームと埋め込みのカバー画像があるかを ffprobe で調べる
+   */
+  private probe(
+    filePath: string
+  ): Promise<Pick<ProbeCacheEntry, "decodable" | "hasCover" | "error">> {
+    return new Promise((resolve) => {
+      const ffprobe = spawn(
+        "ffprobe",
+        ["-v", "error", "-show_streams", "-show_format", "-print_format", "json", filePath],
+        {
+          stdio: ["ignore", "pipe", "pipe"],
+        }
+      );
+
+      let output = "";
+      let errorOutput = "";
+      ffprobe.stdout.on("data", (data) => {
+        output += data.toString();
+      });
+      ffprobe.stderr.on("data", (data) => {
+        errorOutput += data.toString();
+      });
+
+      ffprobe.on("close", (code: number) => {
+        const error = errorOutput.trim().split("\n")[0] || undefined;
+        try {
+          const probe = JSON.parse(output);
+          const streams: { codec_type?: string; disposition?: { attached_pic?: number } }[] =
+            probe.streams ?? [];
+          const duration = parseFloat(probe.format?.duration);
+          const decodable =
+            code === 0 &&
+            streams.some((s) => s.codec_type === "audio") &&
+            Number.isFinite(duration);
+          resolve({
+            decodable,
+            hasCover: streams.some((s) => s.disposition?.attached_pic === 1),
+            error: decodable ? undefined : (error ?? "No audio stream"),
+          });
+        } catch {
+          resolve({
+            decodable: false,
+            hasCover: false,
+            error: error ?? `ffprobe exited with ${code}`,
+          });
+        }
+      });
+      ffprobe.on("error", (err) => {
+        resolve({ decodable: false, hasCover: false, error: err.message });
+      });
+    });
+  }
+
+  /**
+   * レポートに含めるトラックの情報を作成
+   */
+  private toIssue(track: TrackInfo, detail?: string): LibraryHealthIssue {
+    return {
+      path: track._relativePath,
+      trackId: typeof track["Track ID"] === "number" ? track["Track ID"] : undefined,
+      name: String(track.Name ?? ""),
+      artist: String(track["アーティスト"] || track["アルバムアーティスト"] || ""),
+      album: String(track["アルバム"] ?? ""),
+      detail,
+    };
+  }
+
+  /**
+   * ffprobe の結果のキャッシュを読み込む
+   */
+  private loadCache(): ProbeCache {
+    if (!fs.existsSync(this.cachePath)) return {};
+    try {
+      return JSON.parse(fs.readFileSync(this.cachePath, "utf-8"));
+    } catch (error) {
+      console.warn("[HealthChecker] Failed to load probe cache:", error);
+      return {};
+    }
+  }
+
+  /**
+   * ffprobe の結果のキャッシュを保存
+   */
+  private saveCache(cache: ProbeCache): void {
+    try {
+      fs.writeFileSync(this.cachePath, JSON.stringify(cache), "utf-8");
+    } catch (error) {
+      console.warn("[HealthChecker] Failed to save probe cache:", error);
+    }
+  }
+}
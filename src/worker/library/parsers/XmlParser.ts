@@ -1,6 +1,7 @@
 import fs from "fs";
 import plist from "plist";
 import { TrackInfo } from "../../../types/index.js";
+import { ParsedLibraryXml, RawPlaylist } from "../types.js";
 
 export class XmlParser {
   private xmlPath: string;
@@ -12,13 +13,19 @@ export class XmlParser {
   /**
    * iTunes Music Library.xml を読み込んでパース
    */
-  parseXml(): TrackInfo[] {
+  parseXml(): ParsedLibraryXml {
     try {
       const rawXml = fs.readFileSync(this.xmlPath, "utf-8");
-      const parsed = plist.parse(rawXml) as { Tracks?: { [id: string]: TrackInfo } };
+      const parsed = plist.parse(rawXml) as {
+        Tracks?: { [id: string]: TrackInfo };
+        Playlists?: RawPlaylist[];
+      };
       const trackDict: { [id: string]: TrackInfo } = parsed.Tracks || {};
 
-      return Object.values(trackDict);
+      return {
+        tracks: Object.values(trackDict),
+        playlists: parsed.Playlists || [],
+      };
     } catch (error) {
       throw new Error(
         `Failed to parse XML file: ${error instanceof Error ? error.message : String(error)}`
@@ -1,4 +1,5 @@
-import { TrackInfo } from "../../../types/index.js";
+import { Playlist, TrackInfo } from "../../../types/index.js";
+import { RawPlaylist } from "../types.js";
 import { PathConverter } from "../utils/PathConverter.js";
 
 export class TrackProcessor {
@@ -10,22 +11,31 @@ export class TrackProcessor {
 
   /**
    * トラックリストを処理して有効なトラックのみ返す
+   * 変換ルールに一致せずに除外した Location があれば、その数と例をログに出す
    */
   processValidTracks(tracks: TrackInfo[]): TrackInfo[] {
     const validTracks: TrackInfo[] = [];
+    const unmatchedLocations: string[] = [];
 
     for (const track of tracks) {
-      const relativePath = this.pathConverter.convertLocationToRelative(track);
-      if (!relativePath) {
-        // Locationがないなど、再生不可能なものは除外
+      const filePath = this.pathConverter.convertLocationToPath(track);
+      if (!filePath) {
+        // Locationがない、変換ルールに一致しないなど、再生不可能なものは除外
+        if (typeof track.Location === "string") unmatchedLocations.push(track.Location);
         continue;
       }
 
-      // 相対パスを追加
-      (track as TrackInfo & { _relativePath?: string })._relativePath = relativePath;
+      // ファイルの絶対パスを追加
+      (track as TrackInfo & { _relativePath?: string })._relativePath = filePath;
       validTracks.push(track);
     }
 
+    if (unmatchedLocations.length > 0) {
+      console.warn(
+        `[TrackProcessor] Skipped ${unmatchedLocations.length} tracks whose Location matched no LIBRARY_PATH_MAPPINGS rule (e.g. ${unmatchedLocations[0]})`
+      );
+    }
+
     return validTracks;
   }
 
@@ -52,6 +62,42 @@ export class TrackProcessor {
     return artistMap;
   }
 
+  /**
+   * プレイリストの Track ID を有効なトラックに解決
+   * マスターライブラリ・特殊プレイリスト・フォルダは除外する
+   */
+  resolvePlaylists(playlists: RawPlaylist[], validTracks: TrackInfo[]): Playlist[] {
+    const trackMap = new Map<number, TrackInfo>();
+    for (const track of validTracks) {
+      if (typeof track["Track ID"] === "number") {
+        trackMap.set(track["Track ID"], track);
+      }
+    }
+
+    const result: Playlist[] = [];
+    for (const playlist of playlists) {
+      if (playlist.Master || playlist["Distinguished Kind"] !== undefined || playlist.Folder) {
+        continue;
+      }
+
+      const tracks: TrackInfo[] = [];
+      for (const item of playlist["Playlist Items"] || []) {
+        const track = trackMap.get(item["Track ID"]);
+        if (track) {
+          tracks.push(track);
+        }
+      }
+
+      result.push({
+        id: playlist["Playlist Persistent ID"] || String(playlist["Playlist ID"] ?? result.length),
+        name: playlist.Name || "Untitled Playlist",
+        tracks,
+      });
+    }
+
+    return result;
+  }
+
   /**
    * アーティストマップ内の各アルバムをソート
    */
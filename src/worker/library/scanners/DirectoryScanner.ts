@@ -0,0 +1,159 @@
+import fs from "fs";
+import path from "path";
+import { parseFile } from "music-metadata";
+import { TrackInfo } from "../../../types/index.js";
+import { ScanCache } from "../types.js";
+
+/** ライブラリに含める音声ファイルの拡張子 */
+const AUDIO_EXTENSIONS = new Set([
+  ".mp3",
+  ".flac",
+  ".wav",
+  ".ogg",
+  ".opus",
+  ".m4a",
+  ".aac",
+  ".wma",
+]);
+
+export class DirectoryScanner {
+  private directory: string;
+  private cachePath: string;
+
+  constructor(directory: string, cachePath: string) {
+    this.directory = directory;
+    this.cachePath = cachePath;
+  }
+
+  /**
+   * 音楽フォルダをスキャンしてトラックリストを作成
+   * 前回のスキャンから更新日時とサイズが変わっていないファイルはキャッシュのタグを使う
+   */
+  async scan(): Promise<TrackInfo[]> {
+    if (!fs.existsSync(this.directory)) {
+      throw new Error(`Music directory not found: ${this.directory}`);
+    }
+
+    const cache = this.loadCache();
+    const nextFiles: ScanCache["files"] = {};
+    // Track ID は再スキャンしても変わらないよう、キャッシュにない新しいファイルにだけ割り当てる
+    // 削除されたファイルの ID は使い回さない
+    let nextTrackId = cache.nextTrackId;
+    let parsedCount = 0;
+
+    for (const filePath of this.walk(this.directory)) {
+      let stat: fs.Stats;
+      try {
+        stat = await fs.promises.stat(filePath);
+      } catch {
+        continue;
+      }
+
+      const cached = cache.files[filePath];
+      if (cached && cached.mtimeMs === stat.mtimeMs && cached.size === stat.size) {
+        nextFiles[filePath] = cached;
+        continue;
+      }
+
+      try {
+        const trackId = Number(cached?.track["Track ID"]) || nextTrackId++;
+        const track = await this.readTrack(filePath, trackId);
+        nextFiles[filePath] = { mtimeMs: stat.mtimeMs, size: stat.size, track };
+        parsedCount++;
+      } catch (error) {
+        console.warn(`[DirectoryScanner] Could not read tags: ${filePath}`, error);
+      }
+    }
+
+    this.saveCache({ nextTrackId, files: nextFiles });
+    console.log(
+      `[DirectoryScanner] Scanned ${Object.keys(nextFiles).length} files (${parsedCount} updated)`
+    );
+
+    return Object.values(nextFiles).map((entry) => entry.track);
+  }
+
+  /**
+   * フォルダ内の音声ファイルを再帰的に列挙
+   * 隠しファイル・隠しフォルダは除外する
+   */
+  private *walk(directory: string): Generator<string> {
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(directory, { withFileTypes: true });
+    } catch (error) {
+      console.warn(`[DirectoryScanner] Could not read directory: ${directory}`, error);
+      return;
+    }
+
+    for (const entry of entries) {
+      if (entry.name.startsWith(".")) continue;
+      const fullPath = path.join(directory, entry.name);
+      if (entry.isDirectory()) {
+        yield* this.walk(fullPath);
+      } else if (entry.isFile() && AUDIO_EXTENSIONS.has(path.extname(entry.name).toLowerCase())) {
+        yield fullPath;
+      }
+    }
+  }
+
+  /**
+   * 音声ファイルのタグを読み込んで TrackInfo を作成
+   * タグがない項目はファイル名・フォルダ名で補う
+   */
+  private async readTrack(filePath: string, trackId: number): Promise<TrackInfo> {
+    const { common } = await parseFile(filePath, { duration: false, skipCovers: true });
+    // "アーティスト/アルバム/ファイル" の構成を想定してフォルダ名を使う
+    const dirs = path.relative(this.directory, path.dirname(filePath)).split(path.sep);
+    const albumDir = dirs[dirs.length - 1] || undefined;
+    const artistDir = dirs.length >= 2 ? dirs[dirs.length - 2] : undefined;
+    const rating = common.rating?.[0]?.rating;
+
+    return {
+      _relativePath: filePath,
+      "Track ID": trackId,
+      Name: common.title || path.basename(filePath, path.extname(filePath)),
+      アーティスト: common.artist || artistDir,
+      アルバムアーティスト: common.albumartist,
+      アルバム: common.album || albumDir,
+      作曲者: common.composer?.join(", "),
+      "Track Number": common.track.no ?? undefined,
+      "Disc Number": common.disk.no ?? undefined,
+      // iTunes と同じ 0〜100 の値にする
+      Rating: rating !== undefined ? Math.round(rating * 100) : undefined,
+    };
+  }
+
+  /**
+   * スキャン結果のキャッシュを読み込む
+   * 以前の形式 (ファイルのパスをキーとするオブジェクト) の場合は、キャッシュ内の最大の Track ID から次の ID を決める
+   */
+  private loadCache(): ScanCache {
+    if (!fs.existsSync(this.cachePath)) return { nextTrackId: 1, files: {} };
+    try {
+      const parsed = JSON.parse(fs.readFileSync(this.cachePath, "utf-8"));
+      const files: ScanCache["files"] =
+        typeof parsed.files === "object" && parsed.files !== null ? parsed.files : parsed;
+      const maxTrackId = Object.values(files).reduce(
+        (max, e) => Math.max(max, Number(e.track["Track ID"]) || 0),
+        0
+      );
+      const savedNextTrackId = Number.isInteger(parsed.nextTrackId) ? parsed.nextTrackId : 0;
+      return { nextTrackId: Math.max(savedNextTrackId, maxTrackId + 1), files };
+    } catch (error) {
+      console.warn("[DirectoryScanner] Failed to load scan cache:", error);
+      return { nextTrackId: 1, files: {} };
+    }
+  }
+
+  /**
+   * スキャン結果のキャッシュを保存
+   */
+  private saveCache(cache: ScanCache): void {
+    try {
+      fs.writeFileSync(this.cachePath, JSON.stringify(cache), "utf-8");
+    } catch (error) {
+      console.warn("[DirectoryScanner] Failed to save scan cache:", error);
+    }
+  }
+}
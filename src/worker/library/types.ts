@@ -1,4 +1,4 @@
-import { LibraryData } from "../../types/index.js";
+import { LibraryData, LibraryHealthReport, TrackInfo } from "../../types/index.js";
 
 export interface LibraryParseResult {
   success: boolean;
@@ -6,7 +6,77 @@ export interface LibraryParseResult {
   error?: string;
 }
 
+/** ライブラリデータを送った後に送る健全性レポート */
+export interface LibraryHealthResult {
+  success: true;
+  health: LibraryHealthReport;
+}
+
+/** ライブラリの読み込み方法。itunes: iTunes Music Library.xml / directory: 音楽フォルダのスキャン */
+export type LibraryProvider = "itunes" | "directory";
+
+/** iTunes Music Library.xml の Location をローカルのパスに変換するルール */
+export interface PathMappingRule {
+  /** Location のプレフィックス（file:// URL・Windows のパス・UNC パス） */
+  from: string;
+  /** プレフィックスを置き換えるローカルのフォルダ */
+  to: string;
+}
+
 export interface LibraryParserConfig {
+  provider: LibraryProvider;
   xmlPath: string;
-  pathPrefix: string;
+  /** 先頭から順に適用するパスの変換ルール */
+  pathMappings: PathMappingRule[];
+  /** スキャンする音楽フォルダ */
+  directory: string;
+  /** スキャン結果のキャッシュファイル。更新日時が変わっていないファイルはタグを読み直さない */
+  scanCachePath: string;
+  /** ffprobe の結果のキャッシュファイル。更新日時が変わっていないファイルは調べ直さない */
+  healthCachePath: string;
+}
+
+/** スキャン結果のキャッシュの1ファイル分 */
+export interface ScanCacheEntry {
+  mtimeMs: number;
+  size: number;
+  track: TrackInfo;
+}
+
+/** スキャン結果のキャッシュ */
+export interface ScanCache {
+  /** 次に割り当てる Track ID。削除したファイルの ID を使い回さないよう、これまでの最大値より大きくする */
+  nextTrackId: number;
+  /** ファイルの絶対パスをキーとするスキャン結果 */
+  files: { [filePath: string]: ScanCacheEntry };
+}
+
+/** ffprobe の結果のキャッシュの1ファイル分 */
+export interface ProbeCacheEntry {
+  mtimeMs: number;
+  size: number;
+  decodable: boolean;
+  hasCover: boolean;
+  error?: string;
+}
+
+/** ファイルの絶対パスをキーとする ffprobe の結果のキャッシュ */
+export interface ProbeCache {
+  [filePath: string]: ProbeCacheEntry;
+}
+
+/** XML の Playlists 配列の1要素 */
+export interface RawPlaylist {
+  Name?: string;
+  "Playlist ID"?: number;
+  "Playlist Persistent ID"?: string;
+  Master?: boolean;
+  "Distinguished Kind"?: number;
+  Folder?: boolean;
+  "Playlist Items"?: { "Track ID": number }[];
+}
+
+export interface ParsedLibraryXml {
+  tracks: TrackInfo[];
+  playlists: RawPlaylist[];
 }
@@ -0,0 +1,69 @@
+import path from "path";
+import { describe, expect, it } from "vitest";
+import { PathConverter } from "./PathConverter.js";
+
+/**
+ * Location をルールに従って変換します。
+ * @param location iTunes Music Library.xml の Location
+ * @param rules パスの変換ルール
+ * @returns 変換したパス
+ */
+function convert(location: string, rules: { from: string; to: string }[] = []) {
+  return new PathConverter(rules).convertLocationToPath({ _relativePath: "", Location: location });
+}
+
+describe("PathConverter.normalize", () => {
+  it("file:// URL をデコードしてドライブレターのパスにする", () => {
+    expect(PathConverter.normalize("file://localhost/c:/Music/a%20b.mp3")).toBe("C:/Music/a b.mp3");
+  });
+
+  it("UNC パスの書き方をそろえる", () => {
+    expect(PathConverter.normalize("file://server/share/a.mp3")).toBe("//server/share/a.mp3");
+    expect(PathConverter.normalize("file://localhost//server/share/a.mp3")).toBe(
+      "//server/share/a.mp3"
+    );
+    expect(PathConverter.normalize("\\\\server\\share\\a.mp3")).toBe("//server/share/a.mp3");
+  });
+
+  it("不正なエスケープはそのまま扱う", () => {
+    expect(PathConverter.normalize("file:///music/100%.mp3")).toBe("/music/100%.mp3");
+  });
+
+  it("末尾の区切り文字を取り除く", () => {
+    expect(PathConverter.normalize("C:\\Music\\")).toBe("C:/Music");
+  });
+});
+
+describe("PathConverter.convertLocationToPath", () => {
+  const rules = [
+    { from: "file://localhost/C:/Users/me/Music", to: "/mnt/music" },
+    { from: "\\\\nas\\share", to: "/mnt/nas" },
+  ];
+
+  it("最初に一致したルールでプレフィックスを置き換える", () => {
+    expect(convert("file://localhost/C:/Users/me/Music/A/B/01%20x.mp3", rules)).toBe(
+      path.resolve("/mnt/music", "A", "B", "01 x.mp3")
+    );
+    expect(convert("file://nas/share/A/01.mp3", rules)).toBe(
+      path.resolve("/mnt/nas", "A", "01.mp3")
+    );
+  });
+
+  it("Windows のパスは大文字小文字を区別しない", () => {
+    expect(convert("file://localhost/c:/users/ME/music/a.mp3", rules)).toBe(
+      path.resolve("/mnt/music", "a.mp3")
+    );
+  });
+
+  it("区切り位置で一致しない場合はルールを使わない", () => {
+    expect(convert("file://localhost/C:/Users/me/Music2/a.mp3", rules)).toBeNull();
+  });
+
+  it("ルールに一致しない絶対パスはそのまま使う", () => {
+    expect(convert("file:///srv/music/a.mp3", rules)).toBe(path.normalize("/srv/music/a.mp3"));
+  });
+
+  it("Location がない場合は null を返す", () => {
+    expect(new PathConverter(rules).convertLocationToPath({ _relativePath: "" })).toBeNull();
+  });
+});
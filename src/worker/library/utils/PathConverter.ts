@@ -1,28 +1,81 @@
+import path from "path";
 import { TrackInfo } from "../../../types/index.js";
+import { PathMappingRule } from "../types.js";
 
 export class PathConverter {
-  private pathPrefix: string;
+  private rules: PathMappingRule[];
 
-  constructor(pathPrefix: string) {
-    this.pathPrefix = pathPrefix;
+  /**
+   * @param rules 先頭から順に適用するパスの変換ルール。to は絶対パスで指定する
+   */
+  constructor(rules: PathMappingRule[]) {
+    this.rules = rules
+      .map((rule) => ({ from: PathConverter.normalize(rule.from), to: rule.to }))
+      .filter((rule) => rule.from !== "");
   }
 
   /**
-   * Location -> 相対パスへ変換する関数
+   * Location -> ローカルの絶対パスへ変換する関数
+   * 最初に一致したルールでプレフィックスを置き換える
+   * 一致するルールがない場合は、このマシンの絶対パスとして扱えるものだけそのまま使う
    */
-  convertLocationToRelative(track: TrackInfo): string | null {
+  convertLocationToPath(track: TrackInfo): string | null {
     if (!("Location" in track) || typeof track.Location !== "string") {
       return null;
     }
 
-    // prefixの長さだけ取り除き、相対パス "../..." として扱う
-    return decodeURIComponent(`../..${track.Location.slice(this.pathPrefix.length)}`);
+    const location = PathConverter.normalize(track.Location);
+    for (const rule of this.rules) {
+      const rest = PathConverter.stripPrefix(location, rule.from);
+      if (rest === null) continue;
+      return path.resolve(rule.to, ...rest.split("/").filter((s) => s !== ""));
+    }
+
+    return path.isAbsolute(location) ? path.normalize(location) : null;
+  }
+
+  /**
+   * file:// URL・Windows のパス・UNC パスを "/" 区切りの共通の形式にそろえる
+   * 例: file://localhost/C:/Music/a%20b.mp3 -> C:/Music/a b.mp3
+   *     file://server/share/a.mp3, file://localhost//server/share/a.mp3, \\server\share\a.mp3
+   *       -> //server/share/a.mp3
+   */
+  static normalize(location: string): string {
+    let result = location.trim();
+
+    const url = result.match(/^file:\/\/([^/]*)(.*)$/i);
+    if (url) {
+      const [, host, rest] = url;
+      // localhost 以外のホストは UNC パスのサーバー名
+      result = host && host.toLowerCase() !== "localhost" ? `//${host}${rest}` : rest;
+      try {
+        result = decodeURIComponent(result);
+      } catch {
+        // 不正なエスケープはそのまま扱う
+      }
+    }
+
+    result = result.replace(/\\/g, "/");
+    // "/C:/..." の先頭の "/" を取り除き、ドライブレターを大文字にそろえる
+    result = result.replace(/^\/([A-Za-z]:)/, "$1").replace(/^[a-z]:/, (d) => d.toUpperCase());
+    // UNC パスの先頭の "/" は2つにそろえる
+    result = result.replace(/^\/{3,}/, "//");
+    return result.replace(/(.)\/+$/, "$1");
   }
 
   /**
-   * デフォルトのパスプレフィックスを取得
+   * パスの先頭がプレフィックスに一致する場合、残りの部分を返す
+   * Windows のパス・UNC パスは大文字小文字を区別しない
    */
-  static getDefaultPathPrefix(): string {
-    return "file://localhost/C:/Users/kiori/Nextcloud/Musics/MusicBee/Library";
+  private static stripPrefix(location: string, prefix: string): string | null {
+    const isWindowsPath = /^([A-Z]:|\/\/)/.test(prefix);
+    const head = location.slice(0, prefix.length);
+    if (isWindowsPath ? head.toLowerCase() !== prefix.toLowerCase() : head !== prefix) {
+      return null;
+    }
+
+    // "C:/Music" が "C:/Music2/..." に一致しないよう、区切り位置で一致しているか確認する
+    const rest = location.slice(prefix.length);
+    return rest === "" || rest.startsWith("/") || prefix.endsWith("/") ? rest : null;
   }
 }